@@ -0,0 +1,149 @@
+import { mkdtempSync, rmSync } from "node:fs"
+import { Server } from "node:http"
+import { AddressInfo } from "node:net"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { cid } from "../../../src/version_control/cid"
+import { Directory, Document, GrammarRoot, Text } from "../../../src/version_control/immutable/grammar"
+import { HttpRemote } from "../../../src/version_control/remote/HttpRemote"
+import { VersionControl } from "../../../src/version_control/VersionControl"
+import { createApp } from "../app"
+
+let dataDir: string
+let server: Server
+let baseUrl: string
+
+beforeEach(async () => {
+    dataDir = mkdtempSync(join(tmpdir(), "merkurial-server-"))
+    server = createApp(dataDir, { allowedOrigins: ["http://editor.test"] }).listen(0)
+    await new Promise(resolve => server.once("listening", resolve))
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`
+})
+
+afterEach(async () => {
+    await new Promise(resolve => server.close(resolve))
+    rmSync(dataDir, { recursive: true, force: true })
+})
+
+function post(path: string, body: unknown, headers: Record<string, string> = {}) {
+    return fetch(`${baseUrl}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify(body)
+    })
+}
+
+function text(value: string): Text {
+    return { type: "text", value }
+}
+
+// Response bodies are checked field by field
+async function body(response: Response): Promise<any> {
+    return response.json()
+}
+
+// A repository with one committed document
+function repository(text: string): VersionControl {
+    const vc = new VersionControl()
+    const doc = vc.put<Document>({ type: "document", id: "a", name: "a", createdAt: "2024-01-01T00:00:00.000Z", content: [] })
+    const folder = vc.put<Directory>({ type: "folder", name: "notes", children: [doc] })
+    vc.setRoot({ type: "grammar_root", content: [folder] } satisfies GrammarRoot)
+    vc.commit(text, "test")
+    return vc
+}
+
+describe("CORS", () => {
+    it("only answers allowed origins", async () => {
+        const allowed = await fetch(`${baseUrl}/api/branches`, { headers: { Origin: "http://editor.test" } })
+        expect(allowed.headers.get("Access-Control-Allow-Origin")).toBe("http://editor.test")
+        expect(allowed.headers.get("Vary")).toBe("Origin")
+
+        const other = await fetch(`${baseUrl}/api/branches`, { headers: { Origin: "http://elsewhere.test" } })
+        expect(other.headers.get("Access-Control-Allow-Origin")).toBeNull()
+    })
+
+    it("answers preflight requests without running a route", async () => {
+        const response = await fetch(`${baseUrl}/api/content`, { method: "OPTIONS", headers: { Origin: "http://editor.test" } })
+        expect(response.status).toBe(204)
+        expect(response.headers.get("Access-Control-Allow-Headers")).toBe("Content-Type")
+    })
+})
+
+describe("CID validation", () => {
+    it("rejects ids that are not CIDs on every route that takes them", async () => {
+        const traversal = "../../../etc/passwd"
+        const responses = await Promise.all([
+            fetch(`${baseUrl}/api/content/${encodeURIComponent(traversal)}`),
+            post("/api/content", { nodes: { [traversal]: text("x") } }),
+            post("/api/content/query", { cids: [traversal] }),
+            post("/api/content/has", { cids: [traversal] }),
+            post("/api/negotiate/push", { offered: [traversal] }),
+            post("/api/negotiate/pull", { wants: [], haves: [traversal] }),
+            post("/api/branches/main/commits", { name: "main", expected: null, commit: traversal })
+        ])
+        for (const response of responses) {
+            expect(response.status).toBe(400)
+            expect((await body(response)).error).toMatch(/Not a CID/)
+        }
+    })
+
+    it("rejects content that does not hash to its key", async () => {
+        const node = text("real")
+        const response = await post("/api/content", { nodes: { [cid(node)]: text("forged") } })
+        expect(response.status).toBe(400)
+        expect((await body(response)).error).toMatch(/does not match/)
+    })
+})
+
+describe("content and negotiation", () => {
+    it("stores uploaded nodes and reports which it has", async () => {
+        const node = text("stored")
+        const missing = cid(text("missing"))
+        expect((await post("/api/content", { nodes: { [cid(node)]: node } })).status).toBe(200)
+
+        expect(await (await post("/api/content/has", { cids: [cid(node), missing] })).json()).toEqual({ cids: [cid(node)] })
+        expect(await (await post("/api/content/query", { cids: [cid(node), missing] })).json())
+            .toEqual({ nodes: { [cid(node)]: node } })
+        expect(await (await fetch(`${baseUrl}/api/content/${cid(node)}`)).json()).toEqual(node)
+        expect((await fetch(`${baseUrl}/api/content/${missing}`)).status).toBe(404)
+    })
+
+    it("lists a commit whose tree was never uploaded as lacking", async () => {
+        const vc = repository("first")
+        const head = vc.getCurrentBranch().commit
+        await post("/api/content", { nodes: { [head]: vc.resolve(head) } })
+
+        expect(await (await post("/api/negotiate/push", { offered: [head] })).json()).toEqual({ lacking: [head] })
+    })
+})
+
+describe("branches", () => {
+    it("round-trips a push and a pull through HttpRemote", async () => {
+        const source = repository("first")
+        await source.push(new HttpRemote(baseUrl))
+
+        const clone = new VersionControl()
+        await clone.pull(new HttpRemote(baseUrl))
+        expect(clone.getCurrentBranch().commit).toBe(source.getCurrentBranch().commit)
+        expect(clone.fsck().ok).toBe(true)
+
+        const pull = await post("/api/negotiate/pull", { wants: [source.getCurrentBranch().commit], haves: [] })
+        expect((await body(pull)).commits).toContain(source.getCurrentBranch().commit)
+    })
+
+    it("refuses a stale compare-and-swap and a commit that was not uploaded", async () => {
+        const source = repository("first")
+        const branch = source.getCurrentBranch()
+        await source.push(new HttpRemote(baseUrl))
+
+        const stale = await post(`/api/branches/${branch.uuid}/commits`, { name: branch.name, expected: null, commit: branch.commit })
+        expect(stale.status).toBe(409)
+        expect((await body(stale)).error).toMatch(/moved/)
+
+        const unknown = cid(text("never uploaded"))
+        const missing = await post(`/api/branches/${branch.uuid}/commits`, { name: branch.name, expected: branch.commit, commit: unknown })
+        expect(missing.status).toBe(409)
+        expect((await body(missing)).error).toMatch(/not been uploaded/)
+    })
+})
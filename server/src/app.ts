@@ -0,0 +1,177 @@
+import express, { NextFunction, Request, Response } from "express"
+import { existsSync, readFileSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import { cid, CID, isCID } from "../../src/version_control/cid"
+import { Branch } from "../../src/version_control/mutable/branch"
+import {
+    BranchListResponse,
+    BranchUpdateRequest,
+    BranchUpdateResponse,
+    ContentHasRequest,
+    ContentHasResponse,
+    ContentQueryRequest,
+    ContentQueryResponse,
+    ContentUploadRequest,
+    ContentUploadResponse,
+    ErrorResponse,
+    PullNegotiationRequest,
+    PullNegotiationResponse,
+    PushNegotiationRequest,
+    PushNegotiationResponse,
+} from "../../src/version_control/remote/protocol"
+import { Negotiation } from "../../src/version_control/remote/Negotiation"
+import { Resolver } from "../../src/version_control/store/ContentStore"
+import { FileSystemStore } from "../../src/version_control/store/FileSystemStore"
+
+/**
+ * Branch refs of the server, persisted as branches.json next to the objects
+ */
+class BranchTable {
+    private branches: Branch[]
+
+    constructor(private file: string) {
+        this.branches = existsSync(file) ? JSON.parse(readFileSync(file, "utf8")) : []
+    }
+
+    list(): Branch[] {
+        return this.branches
+    }
+
+    get(uuid: string): Branch | undefined {
+        return this.branches.find(b => b.uuid === uuid)
+    }
+
+    set(branch: Branch): void {
+        const idx = this.branches.findIndex(b => b.uuid === branch.uuid)
+        if (idx === -1) {
+            this.branches.push(branch)
+        } else {
+            this.branches[idx] = branch
+        }
+        writeFileSync(this.file, JSON.stringify(this.branches, null, 2))
+    }
+}
+
+/**
+ * The ids in a request that are not CIDs. They must never reach the store,
+ * which would turn them into file paths.
+ */
+function invalidIds(ids: unknown): string[] {
+    if (!Array.isArray(ids)) return ids === undefined ? [] : [String(ids)]
+    return ids.filter(id => !isCID(id)).map(String)
+}
+
+type AppOptions = {
+    /** Origins allowed to call the API from a browser; the editor's dev server by default */
+    allowedOrigins?: string[]
+}
+
+/**
+ * Build the content/branch API over a data directory
+ */
+export function createApp(dataDir: string, options?: AppOptions) {
+    const store = new FileSystemStore(join(dataDir, "objects"))
+    const branches = new BranchTable(join(dataDir, "branches.json"))
+    const resolve: Resolver = (id) => store.get(id)
+
+    const app = express()
+    app.use(express.json({ limit: "50mb" }))
+
+    // The editor runs on the Vite dev server, a different origin. Other
+    // origins get no CORS headers, so browsers keep their pages out.
+    const allowedOrigins = options?.allowedOrigins ?? ["http://localhost:5173"]
+    app.use((req, res, next) => {
+        const origin = req.header("Origin")
+        if (origin && allowedOrigins.includes(origin)) {
+            res.header("Access-Control-Allow-Origin", origin)
+            res.header("Access-Control-Allow-Headers", "Content-Type")
+            res.header("Vary", "Origin")
+        }
+        if (req.method === "OPTIONS") {
+            res.sendStatus(204)
+            return
+        }
+        next()
+    })
+
+    // Reject requests naming anything but CIDs before they touch the store
+    const requireCids = (select: (req: Request) => unknown) =>
+        (req: Request, res: Response<ErrorResponse>, next: NextFunction) => {
+            const invalid = invalidIds(select(req))
+            if (invalid.length > 0) {
+                res.status(400).json({ error: `Not a CID: ${invalid.slice(0, 5).join(", ")}` })
+                return
+            }
+            next()
+        }
+
+    app.post("/api/content", requireCids(req => Object.keys(req.body.nodes ?? {})), (req: Request<{}, ContentUploadResponse | ErrorResponse, ContentUploadRequest>, res) => {
+        const entries = Object.entries(req.body.nodes ?? {})
+        const mismatched = entries.filter(([id, node]) => cid(node) !== id).map(([id]) => id)
+        if (mismatched.length > 0) {
+            res.status(400).json({ error: `Content does not match its CID: ${mismatched.join(", ")}` })
+            return
+        }
+
+        const stored = entries.map(([, node]) => store.put(node))
+        res.json({ stored })
+    })
+
+    app.post("/api/content/query", requireCids(req => req.body.cids), (req: Request<{}, ContentQueryResponse, ContentQueryRequest>, res) => {
+        const nodes: ContentQueryResponse["nodes"] = {}
+        for (const id of req.body.cids ?? []) {
+            const node = store.get(id)
+            if (node) nodes[id] = node
+        }
+        res.json({ nodes })
+    })
+
+    app.post("/api/content/has", requireCids(req => req.body.cids), (req: Request<{}, ContentHasResponse, ContentHasRequest>, res) => {
+        res.json({ cids: (req.body.cids ?? []).filter(id => store.has(id)) })
+    })
+
+    app.get("/api/content/:cid", requireCids(req => [req.params.cid]), (req, res: Response<unknown>) => {
+        const node = store.get(req.params.cid as CID<any>)
+        if (!node) {
+            res.status(404).json({ error: "Not found" })
+            return
+        }
+        res.json(node)
+    })
+
+    app.post("/api/negotiate/push", requireCids(req => req.body.offered), (req: Request<{}, PushNegotiationResponse, PushNegotiationRequest>, res) => {
+        res.json({ lacking: Negotiation.lackingCommits(req.body.offered ?? [], resolve, branches.list().map(b => b.commit)) })
+    })
+
+    app.post("/api/negotiate/pull", requireCids(req => [req.body.wants ?? [], req.body.haves ?? []].flat()), (req: Request<{}, PullNegotiationResponse, PullNegotiationRequest>, res) => {
+        res.json({ commits: Negotiation.missingCommits(req.body.wants ?? [], req.body.haves ?? [], resolve) })
+    })
+
+    app.get("/api/branches", (_req, res: Response<BranchListResponse>) => {
+        res.json({ branches: branches.list() })
+    })
+
+    app.post("/api/branches/:id/commits", requireCids(req => [req.body.commit, req.body.expected ?? []].flat()), (
+        req: Request<{ id: string }, BranchUpdateResponse | ErrorResponse, BranchUpdateRequest>,
+        res
+    ) => {
+        const { name, commit } = req.body
+        const current = branches.get(req.params.id)
+
+        const rejection = Negotiation.validateBranchUpdate(current, req.body, resolve)
+        if (rejection) {
+            res.status(409).json({ error: rejection })
+            return
+        }
+
+        const branch: Branch = { uuid: req.params.id, name: current?.name ?? name, commit }
+        branches.set(branch)
+        res.json({ branch })
+    })
+
+    app.use((err: Error, _req: Request, res: Response<ErrorResponse>, _next: NextFunction) => {
+        res.status(500).json({ error: err.message })
+    })
+
+    return app
+}
@@ -0,0 +1,9 @@
+import { createApp } from "./app"
+
+const port = Number(process.env.PORT ?? 4000)
+const dataDir = process.env.MERKURIAL_DATA ?? "./data"
+const allowedOrigins = process.env.MERKURIAL_ALLOWED_ORIGINS?.split(",").map(origin => origin.trim())
+
+createApp(dataDir, { allowedOrigins }).listen(port, () => {
+    console.log(`merkurial sync server listening on http://localhost:${port} (data in ${dataDir})`)
+})
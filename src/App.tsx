@@ -1,19 +1,26 @@
 import { useState, useCallback, useMemo } from "react"
 import { Descendant } from "slate"
+import { v4 as uuidv4 } from "uuid"
 import { CID, CIDable } from "./version_control/cid"
 import { VersionControl } from "./version_control/VersionControl"
 import { TreeWalker } from "./version_control/TreeWalker"
 import { HistoryView } from "./version_control/HistoryView"
+import { Path, Paths } from "./version_control/path"
 import { Directory, Document, GrammarRoot } from "./version_control/immutable/grammar"
 import { Branch } from "./version_control/mutable/branch"
 import { Commit } from "./version_control/immutable/commit"
+import { HttpRemote } from "./version_control/remote/HttpRemote"
+import { TrackingStatus } from "./version_control/remote/Remote"
+import { MergeConflict, MergeResolutions, MergeStrategy } from "./version_control/ThreeWayMerge"
 import { documentToSlate, slateToDocument } from "./projection"
 import {
     GrammarRootView,
     DocumentEditor,
     VersionControlPanel,
     ReviewView,
+    ConflictResolver,
 } from "./grammar_views/user_views"
+import type { ConflictItem } from "./grammar_views/user_views"
 
 type AppMode = "preview" | "edit" | "review"
 
@@ -30,61 +37,48 @@ function createStoreAdapter(vc: VersionControl) {
     }
 }
 
-// Helper to replace a document CID in the tree
-function replaceDocumentCidInRoot(
-    root: GrammarRoot,
-    oldCid: CID<Document>,
-    newCid: CID<Document>,
-    resolve: <T extends CIDable>(id: CID<T>) => T | undefined,
-    vc: VersionControl
-): GrammarRoot {
-    const replaceInDirectory = (dir: Directory): Directory => {
-        let changed = false
-        const newChildren = dir.children.map(childCid => {
-            if (childCid === oldCid) {
-                changed = true
-                return newCid
-            }
-            const child = resolve(childCid as CID<CIDable>)
-            if (child && (child as any).type === 'folder') {
-                const newChild = replaceInDirectory(child as Directory)
-                if (newChild !== child) {
-                    changed = true
-                    return vc.put(newChild)
-                }
-            }
-            return childCid
-        })
-        if (changed) {
-            return { ...dir, children: newChildren }
-        }
-        return dir
-    }
-
-    const newContent = root.content.map(dirCid => {
-        const dir = resolve(dirCid) as Directory | undefined
-        if (!dir) return dirCid
-        const newDir = replaceInDirectory(dir)
-        if (newDir !== dir) {
-            return vc.put(newDir)
-        }
-        return dirCid
-    })
-
-    return { ...root, content: newContent }
+// A single commit's change applied to the current branch from the history graph
+type CommitChange =
+    | { kind: "cherry-pick", commit: CID<Commit> }
+    /** mainline: for a merge commit, the parent whose side is kept */
+    | { kind: "revert", commit: CID<Commit>, mainline?: number }
+
+// Conflicts as the resolver shows them: the incoming change is "ours" from the user's point of view
+function toConflictItems(conflicts: MergeConflict[], vc: VersionControl): ConflictItem[] {
+    return conflicts.map((conflict): ConflictItem => ({
+        path: conflict.path,
+        baseCid: conflict.base,
+        oursCid: conflict.theirs,
+        theirsCid: conflict.ours,
+        oursContent: conflict.theirs ? vc.resolve(conflict.theirs as CID<CIDable>) ?? null : null,
+        theirsContent: conflict.ours ? vc.resolve(conflict.ours as CID<CIDable>) ?? null : null,
+        resolution: null,
+    }))
 }
 
-export default function App() {
+export default function App({ vc }: { vc: VersionControl }) {
     // Core state
-    const [vc] = useState(() => new VersionControl())
     const [, forceUpdate] = useState({})
     const refresh = useCallback(() => forceUpdate({}), [])
 
     // UI state
     const [mode, setMode] = useState<AppMode>("preview")
-    const [selectedDocumentCid, setSelectedDocumentCid] = useState<CID<Document> | null>(null)
+    // Selected by position, so documents with identical content are told apart
+    const [selectedDocumentPath, setSelectedDocumentPath] = useState<Path<Document> | null>(null)
     const [slateValue, setSlateValue] = useState<Descendant[]>(EMPTY_PARAGRAPH)
 
+    // Merge that stopped on conflicts, reviewed before retrying with resolutions
+    const [mergeTarget, setMergeTarget] = useState<Branch | null>(null)
+    const [conflictItems, setConflictItems] = useState<ConflictItem[]>([])
+    const [mergeStrategy, setMergeStrategy] = useState<MergeStrategy>("merge-commit")
+    // Cherry-pick or revert that stopped on conflicts, retried the same way
+    const [pendingChange, setPendingChange] = useState<CommitChange | null>(null)
+    // Name of the tag whose snapshot is open read-only
+    const [viewingTag, setViewingTag] = useState<string | null>(null)
+
+    // Sync server the history panel fetches from and pushes to
+    const [remote] = useState(() => new HttpRemote())
+
     // Resolver helper (used by TreeWalker and HistoryView)
     const resolve = useCallback(
         <T extends CIDable>(id: CID<T>): T | undefined => vc.resolve(id),
@@ -92,11 +86,25 @@ export default function App() {
     )
 
     // Derived state
-    const grammarRoot = vc.resolve(vc.getWorkingRoot()) as GrammarRoot | undefined
+    const workingRoot = vc.getWorkingRoot()
+    const grammarRoot = vc.resolve(workingRoot) as GrammarRoot | undefined
     const currentBranch = vc.getCurrentBranch()
     const branches = vc.getBranches()
     const isDirty = vc.isDirty()
+    // Walks the whole working tree, so only redone when the tree changes
+    const hasConflictBlocks = useMemo(() => vc.hasConflictBlocks(), [vc, workingRoot])
+    const rebaseState = vc.getRebaseState()
+    const tags = vc.getTags()
     const defaultBranch = branches.find((b) => b.name === "default")!
+    const reviewTarget = mergeTarget ?? defaultBranch
+    const remoteBranches = vc.getRemoteBranches(remote.name)
+    // Counting ahead/behind walks each branch's history. Branches are moved
+    // and renamed in place, so what they point at and are called is the key.
+    const headsKey = [...branches, ...remoteBranches].map((b) => `${b.uuid}:${b.name}:${b.commit}`).join()
+    const trackingStatus: Record<string, TrackingStatus> = useMemo(
+        () => Object.fromEntries(branches.map((b) => [b.uuid, vc.getTrackingStatus(b, remote.name)])),
+        [vc, remote, headsKey]
+    )
 
     // Resolve helper for components (typed version)
     const resolveCid = useCallback(
@@ -119,6 +127,7 @@ export default function App() {
     )
 
     // Get selected document
+    const selectedDocumentCid = selectedDocumentPath ? vc.resolveAt(selectedDocumentPath) ?? null : null
     const selectedDocument = selectedDocumentCid
         ? (resolveCid(selectedDocumentCid) as Document | undefined)
         : undefined
@@ -137,10 +146,10 @@ export default function App() {
 
     // Create a new branch from current position - changes follow to the new branch
     const handleCreateBranch = useCallback((name: string) => {
-        // Get current document path before any changes
-        const currentDocPath = selectedDocumentCid
-            ? getDocuments(vc.getWorkingRoot()).find(d => d.cid === selectedDocumentCid)?.path
-            : null
+        // Get current document before any changes
+        const currentDoc = selectedDocumentPath
+            ? getDocuments(vc.getWorkingRoot()).find(d => Paths.equals(d.location, selectedDocumentPath))
+            : undefined
         
         // Create branch with working state (carries over uncommitted changes)
         vc.createBranch(name, { carryWorkingState: true })
@@ -148,19 +157,19 @@ export default function App() {
         // Create initial branch commit with the changes
         vc.commit(`Start branch: ${name}`, "user")
         
-        // Restore document selection by path
-        if (currentDocPath) {
+        // Restore document selection
+        if (currentDoc) {
             const newDocs = getDocuments(vc.getWorkingRoot())
-            const sameDoc = newDocs.find(d => d.path === currentDocPath)
+            const sameDoc = TreeWalker.findSameDocument(newDocs, currentDoc)
             if (sameDoc) {
-                setSelectedDocumentCid(sameDoc.cid)
+                setSelectedDocumentPath(sameDoc.location)
                 loadDocumentIntoEditor(sameDoc.cid)
             }
         }
         
         setMode("edit")
         refresh()
-    }, [vc, selectedDocumentCid, loadDocumentIntoEditor, refresh, getDocuments])
+    }, [vc, selectedDocumentPath, loadDocumentIntoEditor, refresh, getDocuments])
 
     // Commit current changes
     const handleCommit = useCallback((message: string) => {
@@ -172,46 +181,51 @@ export default function App() {
     const handleViewCommit = useCallback((commitCid: CID<Commit>) => {
         const commit = resolve(commitCid)
         if (commit) {
+            const previousRoot = vc.getWorkingRoot()
+
             // Set working root to this commit's content to view the project at this state
             vc.setWorkingRoot(commit.content)
             
             // Try to keep the same document selected if it exists
-            if (selectedDocumentCid) {
-                const currentPath = getDocuments(commit.content).find(d => d.cid === selectedDocumentCid)?.path
-                if (currentPath) {
-                    const doc = getDocuments(commit.content).find(d => d.path === currentPath)
-                    if (doc) {
-                        setSelectedDocumentCid(doc.cid)
-                        loadDocumentIntoEditor(doc.cid)
-                    }
+            if (selectedDocumentPath) {
+                const currentDoc = getDocuments(previousRoot).find(d => Paths.equals(d.location, selectedDocumentPath))
+                const doc = currentDoc && TreeWalker.findSameDocument(getDocuments(commit.content), currentDoc)
+                if (doc) {
+                    setSelectedDocumentPath(doc.location)
+                    loadDocumentIntoEditor(doc.cid)
                 } else {
                     // Document doesn't exist at this commit
-                    setSelectedDocumentCid(null)
+                    setSelectedDocumentPath(null)
                     setSlateValue(EMPTY_PARAGRAPH)
                 }
             }
             
+            setViewingTag(null)
             setMode("preview")
             refresh()
         }
-    }, [vc, resolve, selectedDocumentCid, loadDocumentIntoEditor, refresh, getDocuments])
+    }, [vc, resolve, selectedDocumentPath, loadDocumentIntoEditor, refresh, getDocuments])
     
     // Create branch from a specific commit
     const handleCreateBranchFromCommit = useCallback((name: string, commitCid: CID<Commit>) => {
         const commit = resolve(commitCid)
         if (!commit) return
         
+        const currentDoc = selectedDocumentPath
+            ? getDocuments(vc.getWorkingRoot()).find(d => Paths.equals(d.location, selectedDocumentPath))
+            : undefined
+
         // Create a new branch pointing to this commit
         const newBranch = vc.createBranch(name, { fromCommit: commitCid })
         vc.checkout(newBranch)
+        setViewingTag(null)
         
         // Preserve document selection if possible
-        if (selectedDocumentCid) {
-            const currentPath = getDocuments(vc.getWorkingRoot()).find(d => d.cid === selectedDocumentCid)?.path
-            if (currentPath) {
-                const doc = getDocuments(vc.getWorkingRoot()).find(d => d.path === currentPath)
+        if (selectedDocumentPath) {
+            if (currentDoc) {
+                const doc = TreeWalker.findSameDocument(getDocuments(vc.getWorkingRoot()), currentDoc)
                 if (doc) {
-                    setSelectedDocumentCid(doc.cid)
+                    setSelectedDocumentPath(doc.location)
                     loadDocumentIntoEditor(doc.cid)
                 }
             }
@@ -219,10 +233,11 @@ export default function App() {
         
         setMode("edit")
         refresh()
-    }, [vc, resolve, selectedDocumentCid, loadDocumentIntoEditor, refresh, getDocuments])
+    }, [vc, resolve, selectedDocumentPath, loadDocumentIntoEditor, refresh, getDocuments])
 
     // Add root directory
     const handleAddRootDirectory = useCallback((name: string) => {
+        if (viewingTag) return
         const newDir: Directory = {
             type: "folder",
             name,
@@ -239,12 +254,14 @@ export default function App() {
             vc.setRoot(newRoot)
         }
         refresh()
-    }, [vc, resolve, refresh])
+    }, [vc, resolve, refresh, viewingTag])
 
     // Add subdirectory
     const handleAddDirectory = useCallback(
-        (parentCid: CID<Directory>, name: string) => {
-            const parent = resolveCid(parentCid) as Directory | undefined
+        (parentPath: Path<Directory>, name: string) => {
+            if (viewingTag) return
+            const parentCid = vc.resolveAt(parentPath)
+            const parent = parentCid && resolveCid(parentCid)
             if (!parent) return
 
             const newDir: Directory = {
@@ -258,20 +275,23 @@ export default function App() {
                 ...parent,
                 children: [...parent.children, newDirCid],
             }
-            vc.updateNode(parentCid, updatedParent)
+            vc.updateAt(parentPath, updatedParent)
             refresh()
         },
-        [vc, resolveCid, refresh]
+        [vc, resolveCid, refresh, viewingTag]
     )
 
     // Add document
     const handleAddDocument = useCallback(
-        (parentCid: CID<Directory>, name: string) => {
-            const parent = resolveCid(parentCid) as Directory | undefined
+        (parentPath: Path<Directory>, name: string) => {
+            if (viewingTag) return
+            const parentCid = vc.resolveAt(parentPath)
+            const parent = parentCid && resolveCid(parentCid)
             if (!parent) return
 
             const newDoc: Document = {
                 type: "document",
+                id: uuidv4(),
                 name,
                 createdAt: new Date().toISOString(),
                 content: [],
@@ -282,25 +302,27 @@ export default function App() {
                 ...parent,
                 children: [...parent.children, newDocCid],
             }
-            vc.updateNode(parentCid, updatedParent)
+            vc.updateAt(parentPath, updatedParent)
             refresh()
 
             // Select the new document
-            setSelectedDocumentCid(newDocCid)
+            setSelectedDocumentPath(Paths.child(parentPath, "children", parent.children.length))
             setSlateValue(EMPTY_PARAGRAPH)
             setMode("edit")
         },
-        [vc, resolveCid, refresh]
+        [vc, resolveCid, refresh, viewingTag]
     )
 
     // Select document
     const handleSelectDocument = useCallback(
-        (docCid: CID<Document>) => {
-            setSelectedDocumentCid(docCid)
+        (docPath: Path<Document>) => {
+            const docCid = vc.resolveAt(docPath)
+            if (!docCid) return
+            setSelectedDocumentPath(docPath)
             loadDocumentIntoEditor(docCid)
-            setMode("edit")
+            if (!viewingTag) setMode("edit")
         },
-        [loadDocumentIntoEditor]
+        [vc, loadDocumentIntoEditor, viewingTag]
     )
 
     // Handle Slate changes
@@ -309,57 +331,53 @@ export default function App() {
             setSlateValue(value)
 
             // Convert back to document and save
-            if (selectedDocumentCid && mode === "edit" && selectedDocument) {
+            if (selectedDocumentPath && mode === "edit" && !viewingTag && selectedDocument) {
                 const store = createStoreAdapter(vc)
-                const { documentCid } = slateToDocument(value, store, selectedDocument)
-
-                // Update the reference in the tree (replaces old CID with new one)
-                const root = resolve(vc.getWorkingRoot()) as GrammarRoot | undefined
-                if (root && documentCid !== selectedDocumentCid) {
-                    // Use updateNode to replace the old document CID with the new one
-                    // We need to rebuild the tree with the new CID
-                    const newRoot = replaceDocumentCidInRoot(root, selectedDocumentCid, documentCid, resolve, vc)
-                    vc.setRoot(newRoot)
-                    setSelectedDocumentCid(documentCid)
+                const { document, documentCid } = slateToDocument(value, store, selectedDocument)
+
+                // Only the selected document changes, not others with the same content
+                if (documentCid !== selectedDocumentCid) {
+                    vc.updateAt(selectedDocumentPath, document)
                     refresh()
                 }
             }
         },
-        [vc, selectedDocumentCid, selectedDocument, mode, refresh, resolve]
+        [vc, selectedDocumentPath, selectedDocumentCid, selectedDocument, mode, viewingTag, refresh]
     )
 
     // Branch name change
     const handleBranchNameChange = useCallback(
         (name: string) => {
-            currentBranch.name = name
+            vc.renameBranch(currentBranch, name)
             refresh()
         },
-        [currentBranch, refresh]
+        [vc, currentBranch, refresh]
     )
 
     // Switch branch - preserve document selection by finding same document in new branch
     const handleSwitchBranch = useCallback(
         (branch: Branch) => {
-            // Get current document path before switching
-            const currentDocPath = selectedDocumentCid
-                ? getDocuments(vc.getWorkingRoot()).find(d => d.cid === selectedDocumentCid)?.path
-                : null
+            // Get current document before switching
+            const currentDoc = selectedDocumentPath
+                ? getDocuments(vc.getWorkingRoot()).find(d => Paths.equals(d.location, selectedDocumentPath))
+                : undefined
 
             vc.checkout(branch)
+            setViewingTag(null)
             
-            // Try to find the same document in the new branch by path
-            if (currentDocPath) {
+            // Try to find the same document in the new branch, following renames and moves
+            if (currentDoc) {
                 const newBranchDocs = getDocuments(vc.getWorkingRoot())
-                const sameDoc = newBranchDocs.find(d => d.path === currentDocPath)
+                const sameDoc = TreeWalker.findSameDocument(newBranchDocs, currentDoc)
                 if (sameDoc) {
-                    setSelectedDocumentCid(sameDoc.cid)
+                    setSelectedDocumentPath(sameDoc.location)
                     loadDocumentIntoEditor(sameDoc.cid)
                 } else {
-                    setSelectedDocumentCid(null)
+                    setSelectedDocumentPath(null)
                     setSlateValue(EMPTY_PARAGRAPH)
                 }
             } else {
-                setSelectedDocumentCid(null)
+                setSelectedDocumentPath(null)
                 setSlateValue(EMPTY_PARAGRAPH)
             }
             
@@ -371,29 +389,41 @@ export default function App() {
             }
             refresh()
         },
-        [vc, refresh, selectedDocumentCid, loadDocumentIntoEditor, mode, getDocuments]
+        [vc, refresh, selectedDocumentPath, loadDocumentIntoEditor, mode, getDocuments]
     )
 
-    // Check for conflicts (for review mode)
-    const hasConflicts = useMemo(() => {
-        if (mode !== "review") return false
-        
-        const featureCommit = resolve(currentBranch.commit)
-        if (!featureCommit) return false
-        
-        const defaultCommitCid = defaultBranch.commit
-        
-        let current: typeof featureCommit | undefined = featureCommit
-        while (current) {
-            if (current.parents.includes(defaultCommitCid)) {
-                return false
+    // Update remote-tracking branches
+    const handleFetch = useCallback(async () => {
+        await vc.fetch(remote)
+        refresh()
+    }, [vc, remote, refresh])
+
+    // Fast-forward the current branch - keep the selected document
+    const handlePull = useCallback(async () => {
+        const currentDoc = selectedDocumentPath
+            ? getDocuments(vc.getWorkingRoot()).find(d => Paths.equals(d.location, selectedDocumentPath))
+            : undefined
+
+        await vc.pull(remote)
+
+        if (currentDoc) {
+            const doc = TreeWalker.findSameDocument(getDocuments(vc.getWorkingRoot()), currentDoc)
+            if (doc) {
+                setSelectedDocumentPath(doc.location)
+                loadDocumentIntoEditor(doc.cid)
+            } else {
+                setSelectedDocumentPath(null)
+                setSlateValue(EMPTY_PARAGRAPH)
             }
-            if (current.parents.length === 0) break
-            current = resolve(current.parents[0])
         }
-        
-        return true
-    }, [resolve, defaultBranch, currentBranch, mode])
+        refresh()
+    }, [vc, remote, selectedDocumentPath, loadDocumentIntoEditor, refresh, getDocuments])
+
+    // Publish the current branch
+    const handlePush = useCallback(async () => {
+        await vc.push(remote)
+        refresh()
+    }, [vc, remote, refresh])
 
     /**
      * Merge sourceBranch INTO targetBranch.
@@ -404,41 +434,247 @@ export default function App() {
      * 3. We merge feature into main
      * 4. Result: main gets a merge commit with feature's content
      * 5. We stay on main after the merge
+     * 
+     * If both branches changed the same documents, nothing is committed; we go
+     * back to the feature branch and open review to resolve the conflicts.
      */
-    const handleMergeInto = useCallback((sourceBranch: Branch, targetBranch: Branch) => {
-        // Remember current document by path (not CID, since CIDs will change)
-        const sourceDocPath = selectedDocumentCid
-            ? getDocuments(vc.getWorkingRoot()).find(d => d.cid === selectedDocumentCid)?.path
-            : null
+    const handleMergeInto = useCallback((
+        sourceBranch: Branch,
+        targetBranch: Branch,
+        resolutions?: MergeResolutions,
+        strategy?: MergeStrategy
+    ) => {
+        // Default never takes conflict blocks; they must be resolved on the branch first
+        const sourceContent = resolve(sourceBranch.commit)?.content
+        if (targetBranch.uuid === vc.getDefaultBranch().uuid && sourceContent
+            && TreeWalker.findConflictBlocks(sourceContent, resolve).length > 0) {
+            return
+        }
 
-        // Step 1: Switch to the target branch (where the merge commit will be created)
+        // Remember current document (its CID will change, its id and path may not)
+        const sourceDoc = selectedDocumentPath
+            ? getDocuments(vc.getWorkingRoot()).find(d => Paths.equals(d.location, selectedDocumentPath))
+            : undefined
+
+        // Step 1: Merge the source branch into target
+        // This records the merge on targetBranch (per the strategy) unless there are conflicts.
+        // Documents both sides edited keep conflict blocks where they overlap,
+        // except on default, where they are reported as conflicts instead.
+        // We stay on the source branch until then: the resolutions may be its work in progress.
+        const outcome = vc.merge(sourceBranch, { resolutions, conflictBlocks: true, strategy, into: targetBranch })
+        if (outcome.conflicts.length > 0) {
+            setMergeTarget(targetBranch)
+            // The branch being merged is "ours" from the user's point of view
+            setConflictItems(toConflictItems(outcome.conflicts, vc))
+            setMode("review")
+            refresh()
+            return
+        }
+        setMergeTarget(null)
+        setConflictItems([])
+
+        // Step 2: Switch to the target branch, which now holds the merge
         vc.checkout(targetBranch)
         
-        // Step 2: Merge the source branch into target
-        // This creates a merge commit on targetBranch with source's content
-        vc.merge(sourceBranch)
-        
         // Step 3: Restore document selection from source branch if possible
         // (since the merged content comes from source)
-        if (sourceDocPath) {
-            const doc = getDocuments(vc.getWorkingRoot()).find(d => d.path === sourceDocPath)
+        if (sourceDoc) {
+            const doc = TreeWalker.findSameDocument(getDocuments(vc.getWorkingRoot()), sourceDoc)
             if (doc) {
-                setSelectedDocumentCid(doc.cid)
+                setSelectedDocumentPath(doc.location)
                 loadDocumentIntoEditor(doc.cid)
             } else {
-                setSelectedDocumentCid(null)
+                setSelectedDocumentPath(null)
                 setSlateValue(EMPTY_PARAGRAPH)
             }
         }
         
         setMode("preview")
         refresh()
-    }, [vc, selectedDocumentCid, loadDocumentIntoEditor, refresh, getDocuments])
+    }, [vc, resolve, selectedDocumentPath, loadDocumentIntoEditor, refresh, getDocuments])
+
+    // Convenience: merge current branch into the branch under review (default: main)
+    const handleMerge = useCallback((resolutions: MergeResolutions, strategy: MergeStrategy) => {
+        // Remembered for the retry after conflicts
+        setMergeStrategy(strategy)
+        handleMergeInto(currentBranch, reviewTarget, resolutions, strategy)
+    }, [handleMergeInto, currentBranch, reviewTarget])
+
+    // Cherry-pick or revert one commit from the history graph on the current branch
+    const handleApplyChange = useCallback((change: CommitChange, resolutions?: MergeResolutions) => {
+        // Uncommitted edits, or a commit being viewed, would end up in the new commit
+        if (vc.isDirty()) return
+        const commitContent = resolve(change.commit)?.content
+        if (change.kind === "cherry-pick" && currentBranch.uuid === vc.getDefaultBranch().uuid && commitContent
+            && TreeWalker.findConflictBlocks(commitContent, resolve).length > 0) {
+            return
+        }
 
-    // Convenience: merge current branch into default (main)
-    const handleMerge = useCallback(() => {
-        handleMergeInto(currentBranch, defaultBranch)
-    }, [handleMergeInto, currentBranch, defaultBranch])
+        const currentDoc = selectedDocumentPath
+            ? getDocuments(vc.getWorkingRoot()).find(d => Paths.equals(d.location, selectedDocumentPath))
+            : undefined
+
+        const options = { resolutions, conflictBlocks: true }
+        const outcome = change.kind === "cherry-pick"
+            ? vc.cherryPick(change.commit, options)
+            : vc.revert(change.commit, "user", { ...options, mainline: change.mainline })
+        if (outcome.conflicts.length > 0) {
+            setPendingChange(change)
+            setConflictItems(toConflictItems(outcome.conflicts, vc))
+            setMode("review")
+            refresh()
+            return
+        }
+        setPendingChange(null)
+        setConflictItems([])
+
+        if (currentDoc) {
+            const doc = TreeWalker.findSameDocument(getDocuments(vc.getWorkingRoot()), currentDoc)
+            if (doc) {
+                setSelectedDocumentPath(doc.location)
+                loadDocumentIntoEditor(doc.cid)
+            } else {
+                setSelectedDocumentPath(null)
+                setSlateValue(EMPTY_PARAGRAPH)
+            }
+        }
+
+        setMode("preview")
+        refresh()
+    }, [vc, resolve, currentBranch, selectedDocumentPath, loadDocumentIntoEditor, refresh, getDocuments])
+
+    const handleCherryPick = useCallback((commit: CID<Commit>) => {
+        handleApplyChange({ kind: "cherry-pick", commit })
+    }, [handleApplyChange])
+
+    const handleRevert = useCallback((commit: CID<Commit>, mainline?: number) => {
+        handleApplyChange({ kind: "revert", commit, mainline })
+    }, [handleApplyChange])
+
+    // Rebase the current branch onto default, or resume a paused rebase with resolutions
+    const handleRebase = useCallback((resolutions?: MergeResolutions) => {
+        const currentDoc = selectedDocumentPath
+            ? getDocuments(vc.getWorkingRoot()).find(d => Paths.equals(d.location, selectedDocumentPath))
+            : undefined
+
+        let outcome
+        if (vc.getRebaseState()) {
+            outcome = vc.continueRebase({ resolutions })
+        } else {
+            outcome = vc.rebase(vc.getDefaultBranch())
+        }
+        if (outcome.conflicts.length > 0) {
+            setConflictItems(toConflictItems(outcome.conflicts, vc))
+            setMode("review")
+            refresh()
+            return
+        }
+        setConflictItems([])
+
+        if (currentDoc) {
+            const doc = TreeWalker.findSameDocument(getDocuments(vc.getWorkingRoot()), currentDoc)
+            if (doc) {
+                setSelectedDocumentPath(doc.location)
+                loadDocumentIntoEditor(doc.cid)
+            } else {
+                setSelectedDocumentPath(null)
+                setSlateValue(EMPTY_PARAGRAPH)
+            }
+        }
+
+        setMode("preview")
+        refresh()
+    }, [vc, selectedDocumentPath, loadDocumentIntoEditor, refresh, getDocuments])
+
+    const handleAbortRebase = useCallback(() => {
+        vc.abortRebase()
+        setConflictItems([])
+        setMode("edit")
+        refresh()
+    }, [vc, refresh])
+
+    const handleUndoRebase = useCallback(() => {
+        vc.undoRebase(currentBranch)
+        setSelectedDocumentPath(null)
+        setSlateValue(EMPTY_PARAGRAPH)
+        setMode("preview")
+        refresh()
+    }, [vc, currentBranch, refresh])
+
+    const handleCreateTag = useCallback((name: string, message: string, commitCid: CID<Commit>) => {
+        vc.createTag(name, message, "user", commitCid)
+        refresh()
+    }, [vc, refresh])
+
+    const handleDeleteTag = useCallback((name: string) => {
+        vc.deleteTag(name)
+        if (viewingTag === name) handleSwitchBranch(currentBranch)
+        refresh()
+    }, [vc, viewingTag, currentBranch, handleSwitchBranch, refresh])
+
+    // Open a tag's snapshot read-only, like viewing its commit
+    const handleOpenTag = useCallback((name: string) => {
+        const entry = tags.find(t => t.tag.name === name)
+        if (!entry) return
+        handleViewCommit(entry.tag.target)
+        setViewingTag(name)
+    }, [tags, handleViewCommit])
+
+    // Leave the tag and go back to the current branch
+    const handleCloseTag = useCallback(() => {
+        handleSwitchBranch(currentBranch)
+    }, [currentBranch, handleSwitchBranch])
+
+    const handleResolveConflict = useCallback((
+        index: number,
+        resolution: "ours" | "theirs" | "manual",
+        manualContent?: CID<Document>
+    ) => {
+        setConflictItems(items => items.map((item, i) =>
+            i === index ? { ...item, resolution, manualContent } : item
+        ))
+    }, [])
+
+    // Retry the merge, cherry-pick, revert or rebase with a version chosen for every conflicting path
+    const handleFinishResolve = useCallback(() => {
+        const resolutions: MergeResolutions = {}
+        for (const item of conflictItems) {
+            if (item.resolution === "ours") resolutions[item.path] = item.oursCid
+            else if (item.resolution === "theirs") resolutions[item.path] = item.theirsCid
+            else if (item.resolution === "manual" && item.manualContent) resolutions[item.path] = item.manualContent
+        }
+        if (vc.getRebaseState()) {
+            handleRebase(resolutions)
+        } else if (pendingChange) {
+            handleApplyChange(pendingChange, resolutions)
+        } else {
+            handleMerge(resolutions, mergeStrategy)
+        }
+    }, [vc, conflictItems, pendingChange, mergeStrategy, handleRebase, handleApplyChange, handleMerge])
+
+    const handleCancelMerge = useCallback(() => {
+        setMergeTarget(null)
+        setPendingChange(null)
+        setConflictItems([])
+        setMode("edit")
+    }, [])
+
+    const projectionStore = useMemo(() => createStoreAdapter(vc), [vc])
+
+    // Merge base of the branches under review, to tell which side changed what
+    const mergeBaseRoot = useMemo(() => {
+        if (mode !== "review") return undefined
+        const baseCommit = HistoryView.findCommonAncestor(currentBranch, reviewTarget, resolve)
+        return baseCommit ? resolve(baseCommit)?.content : undefined
+    }, [mode, currentBranch, reviewTarget, resolve])
+    const mergeBaseDocuments = useMemo(
+        () => mergeBaseRoot ? getDocuments(mergeBaseRoot) : [],
+        [mergeBaseRoot, getDocuments]
+    )
+    const mergeBaseFolders = useMemo(
+        () => mergeBaseRoot ? TreeWalker.getFolderPaths(mergeBaseRoot, resolve) : [],
+        [mergeBaseRoot, resolve]
+    )
 
 
     return (
@@ -449,7 +685,7 @@ export default function App() {
                     <GrammarRootView
                         grammarRoot={grammarRoot}
                         resolveCid={resolveCid}
-                        selectedDocumentCid={selectedDocumentCid}
+                        selectedDocumentPath={selectedDocumentPath}
                         onSelectDocument={handleSelectDocument}
                         onAddRootDirectory={handleAddRootDirectory}
                         onAddDirectory={handleAddDirectory}
@@ -461,21 +697,42 @@ export default function App() {
             {/* Right Panel - Document + Version Control */}
             <div style={styles.rightPanel}>
                 {/* Review Mode - Full screen review view with integrated conflict resolution */}
-                {mode === "review" ? (
+                {mode === "review" && conflictItems.length > 0 ? (
+                    <ConflictResolver
+                        conflicts={conflictItems}
+                        store={projectionStore}
+                        onResolve={handleResolveConflict}
+                        onFinishResolve={handleFinishResolve}
+                        onCancel={rebaseState ? handleAbortRebase : handleCancelMerge}
+                        allResolved={conflictItems.every(item => item.resolution !== null)}
+                    />
+                ) : mode === "review" ? (
                     <ReviewView
                         featureBranch={currentBranch}
-                        defaultBranch={defaultBranch}
+                        defaultBranch={reviewTarget}
                         featureDocuments={getDocuments(vc.getWorkingRoot())}
-                        defaultDocuments={getDocuments(resolve(defaultBranch.commit)?.content || vc.getWorkingRoot())}
+                        defaultDocuments={getDocuments(resolve(reviewTarget.commit)?.content || vc.getWorkingRoot())}
+                        baseDocuments={mergeBaseDocuments}
+                        featureFolders={TreeWalker.getFolderPaths(vc.getWorkingRoot(), resolve)}
+                        defaultFolders={TreeWalker.getFolderPaths(resolve(reviewTarget.commit)?.content || vc.getWorkingRoot(), resolve)}
+                        baseFolders={mergeBaseFolders}
+                        store={projectionStore}
                         resolveCid={resolveCid}
-                        hasConflicts={hasConflicts}
                         onMerge={handleMerge}
-                        onBackToEdit={() => setMode("edit")}
+                        onBackToEdit={handleCancelMerge}
                     />
                 ) : (
                     <>
                         {/* Document Area */}
                         <div style={styles.documentArea}>
+                            {viewingTag && (
+                                <div style={styles.tagBanner}>
+                                    <span>🏷 Viewing tag <strong>{viewingTag}</strong> (read-only)</span>
+                                    <button style={styles.tagBannerClose} onClick={handleCloseTag}>
+                                        Back to {currentBranch.name}
+                                    </button>
+                                </div>
+                            )}
                             {selectedDocumentCid ? (
                                 <>
                                     <div style={styles.editHeader}>
@@ -483,21 +740,17 @@ export default function App() {
                                             type="text"
                                             value={selectedDocument?.name || ""}
                                             onChange={(e) => {
-                                                if (selectedDocument) {
-                                                    const updated = {
+                                                if (selectedDocumentPath && selectedDocument && !viewingTag) {
+                                                    vc.updateAt(selectedDocumentPath, {
                                                         ...selectedDocument,
                                                         name: e.target.value,
-                                                    }
-                                                    const newCid = vc.updateNode(
-                                                        selectedDocumentCid,
-                                                        updated as Document
-                                                    )
-                                                    setSelectedDocumentCid(newCid)
+                                                    })
                                                     refresh()
                                                 }
                                             }}
                                             style={styles.titleInput}
                                             placeholder="Document title..."
+                                            readOnly={viewingTag !== null}
                                         />
                                         {currentBranch.name !== "default" && (
                                             <div 
@@ -513,7 +766,7 @@ export default function App() {
                                     <DocumentEditor
                                         value={slateValue}
                                         onChange={handleSlateChange}
-                                        readOnly={false}
+                                        readOnly={viewingTag !== null}
                                     />
                                 </>
                             ) : (
@@ -533,6 +786,7 @@ export default function App() {
                             branches={branches}
                             defaultBranchName="default"
                             isDirty={isDirty}
+                            hasConflictBlocks={hasConflictBlocks}
                             commitHistory={getCommitHistory()}
                             onBranchNameChange={handleBranchNameChange}
                             onSwitchBranch={handleSwitchBranch}
@@ -541,6 +795,23 @@ export default function App() {
                             onCommit={handleCommit}
                             onMergeInto={handleMergeInto}
                             onViewCommit={handleViewCommit}
+                            onCherryPick={handleCherryPick}
+                            onRevert={handleRevert}
+                            rebaseInProgress={rebaseState !== null}
+                            canUndoRebase={vc.canUndoRebase(currentBranch)}
+                            onRebase={handleRebase}
+                            onAbortRebase={handleAbortRebase}
+                            onUndoRebase={handleUndoRebase}
+                            tags={tags}
+                            onCreateTag={handleCreateTag}
+                            onDeleteTag={handleDeleteTag}
+                            onOpenTag={handleOpenTag}
+                            remoteName={remote.name}
+                            remoteBranches={remoteBranches}
+                            trackingStatus={trackingStatus}
+                            onFetch={handleFetch}
+                            onPull={handlePull}
+                            onPush={handlePush}
                         />
                     </>
                 )}
@@ -576,6 +847,28 @@ const styles: Record<string, React.CSSProperties> = {
         overflow: "hidden",
         padding: 16,
     },
+    tagBanner: {
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "space-between",
+        gap: 12,
+        marginBottom: 12,
+        padding: "8px 12px",
+        borderRadius: 6,
+        background: "rgba(234, 179, 8, 0.1)",
+        border: "1px solid rgba(234, 179, 8, 0.3)",
+        color: "#eab308",
+        fontSize: 12,
+    },
+    tagBannerClose: {
+        background: "transparent",
+        border: "1px solid rgba(234, 179, 8, 0.5)",
+        borderRadius: 4,
+        padding: "3px 10px",
+        color: "#eab308",
+        fontSize: 11,
+        cursor: "pointer",
+    },
     editHeader: {
         display: "flex",
         alignItems: "center",
@@ -1,35 +1,58 @@
-import { CID } from "../../version_control/cid"
+import { useMemo, useState } from "react"
+import { Descendant, Element as SlateElement, Node } from "slate"
+import { CID, CIDable } from "../../version_control/cid"
+import { Document } from "../../version_control/immutable/grammar"
+import { ContentStore } from "../../version_control/store/ContentStore"
+import { ThreeWayMerge } from "../../version_control/ThreeWayMerge"
+import { documentToSlate, slateToDocument } from "../../projection"
+import { DocumentEditor } from "./DocumentEditor"
 
 type ConflictItem = {
     path: string
-    oursCid: CID<any>
-    theirsCid: CID<any>
-    oursContent: any
-    theirsContent: any
+    /** null if the path did not exist at the merge base / on that side */
+    baseCid: CID<any> | null
+    oursCid: CID<any> | null
+    theirsCid: CID<any> | null
+    oursContent: CIDable | null
+    theirsContent: CIDable | null
     resolution: "ours" | "theirs" | "manual" | null
-    manualContent?: any
+    /** Hand-edited document used when resolution is "manual" */
+    manualContent?: CID<Document>
 }
 
 type ConflictResolverProps = {
     conflicts: ConflictItem[]
-    onResolve: (index: number, resolution: "ours" | "theirs" | "manual", manualContent?: any) => void
+    /** Reads the conflicting versions and stores hand-edited documents */
+    store: Pick<ContentStore, "put" | "get">
+    onResolve: (index: number, resolution: "ours" | "theirs" | "manual", manualContent?: CID<Document>) => void
     onFinishResolve: () => void
+    onCancel: () => void
     allResolved: boolean
 }
 
 export function ConflictResolver({
     conflicts,
+    store,
     onResolve,
     onFinishResolve,
+    onCancel,
     allResolved,
 }: ConflictResolverProps) {
+    // Only one document is hand-edited at a time
+    const [editingIndex, setEditingIndex] = useState<number | null>(null)
+
     return (
         <div style={styles.container}>
             <div style={styles.header}>
                 <h2 style={styles.title}>Resolve Conflicts</h2>
-                <span style={styles.count}>
-                    {conflicts.filter((c) => c.resolution).length} / {conflicts.length} resolved
-                </span>
+                <div style={styles.headerRight}>
+                    <span style={styles.count}>
+                        {conflicts.filter((c) => c.resolution).length} / {conflicts.length} resolved
+                    </span>
+                    <button style={styles.cancelButton} onClick={onCancel}>
+                        Cancel
+                    </button>
+                </div>
             </div>
 
             <div style={styles.conflictList}>
@@ -74,6 +97,28 @@ export function ConflictResolver({
                                 </pre>
                             </div>
                         </div>
+
+                        {isDocumentConflict(conflict) && (editingIndex === index ? (
+                            <ManualEditor
+                                conflict={conflict}
+                                store={store}
+                                onSave={(documentCid) => {
+                                    onResolve(index, "manual", documentCid)
+                                    setEditingIndex(null)
+                                }}
+                                onClose={() => setEditingIndex(null)}
+                            />
+                        ) : (
+                            <button
+                                style={{
+                                    ...styles.manualButton,
+                                    ...(conflict.resolution === "manual" ? styles.manualButtonSelected : {}),
+                                }}
+                                onClick={() => setEditingIndex(index)}
+                            >
+                                {conflict.resolution === "manual" ? "✓ Edited manually · Edit again" : "Edit manually"}
+                            </button>
+                        ))}
                     </div>
                 ))}
             </div>
@@ -94,6 +139,97 @@ export function ConflictResolver({
     )
 }
 
+// Hand-editing the result of a document both sides changed
+function ManualEditor({
+    conflict,
+    store,
+    onSave,
+    onClose,
+}: {
+    conflict: ConflictItem
+    store: Pick<ContentStore, "put" | "get">
+    onSave: (documentCid: CID<Document>) => void
+    onClose: () => void
+}) {
+    const initialValue = useMemo(() => {
+        if (conflict.manualContent) {
+            const edited = store.get(conflict.manualContent)
+            if (edited) return documentToSlate(edited, store.get)
+        }
+        return documentToSlate(mergedDraft(conflict, store), store.get)
+    }, [conflict, store])
+    const [value, setValue] = useState<Descendant[]>(initialValue)
+
+    // Conflict blocks left in the draft would end up in the merge commit
+    const unresolvedBlocks = value.filter(
+        (node) => SlateElement.isElement(node) && node.type === "conflict"
+    ).length
+
+    const handleSave = () => {
+        const { documentCid } = slateToDocument(value, store, baseDocument(conflict, store))
+        onSave(documentCid)
+    }
+
+    return (
+        <div style={styles.manualEditor}>
+            <div style={styles.manualHeader}>
+                <span style={styles.versionLabel}>Merged Result</span>
+                {unresolvedBlocks > 0 && (
+                    <span style={styles.manualHint}>
+                        {unresolvedBlocks} conflicting {unresolvedBlocks === 1 ? "region" : "regions"} left
+                    </span>
+                )}
+            </div>
+            <div style={styles.manualEditorBody}>
+                <DocumentEditor value={value} onChange={setValue} />
+            </div>
+            <div style={styles.manualActions}>
+                <button style={styles.cancelButton} onClick={onClose}>
+                    Discard
+                </button>
+                <button
+                    style={{
+                        ...styles.saveButton,
+                        ...(unresolvedBlocks > 0 ? styles.finishButtonDisabled : {}),
+                    }}
+                    onClick={handleSave}
+                    disabled={unresolvedBlocks > 0 || value.every((node) => Node.string(node) === "")}
+                >
+                    Use Edited Version
+                </button>
+            </div>
+        </div>
+    )
+}
+
+function isDocumentConflict(conflict: ConflictItem): boolean {
+    return [conflict.oursContent, conflict.theirsContent].some((node) => node?.type === "document")
+}
+
+// The document whose name and creation date the edited result keeps
+function baseDocument(conflict: ConflictItem, store: Pick<ContentStore, "get">): Document | undefined {
+    for (const node of [conflict.oursContent, conflict.theirsContent]) {
+        if (node?.type === "document") return node
+    }
+    const base = conflict.baseCid ? store.get(conflict.baseCid) : undefined
+    return base?.type === "document" ? base : undefined
+}
+
+// Starting point for manual editing: both sides merged block by block, with
+// the regions they disagree on left as conflict blocks
+function mergedDraft(conflict: ConflictItem, store: Pick<ContentStore, "put" | "get">): Document {
+    const contentOf = (node: CIDable | null | undefined): Document["content"] => node?.type === "document" ? node.content : []
+    const base = conflict.baseCid ? store.get(conflict.baseCid) : undefined
+    const content = ThreeWayMerge.mergeBlocks(
+        contentOf(base),
+        contentOf(conflict.oursContent),
+        contentOf(conflict.theirsContent),
+        store,
+        { conflictBlocks: true }
+    ) ?? contentOf(conflict.oursContent)
+    return { ...baseDocument(conflict, store)!, content }
+}
+
 export type { ConflictItem }
 
 const styles: Record<string, React.CSSProperties> = {
@@ -116,10 +252,24 @@ const styles: Record<string, React.CSSProperties> = {
         color: "var(--text-primary)",
         margin: 0,
     },
+    headerRight: {
+        display: "flex",
+        alignItems: "center",
+        gap: 12,
+    },
     count: {
         fontSize: 13,
         color: "var(--text-secondary)",
     },
+    cancelButton: {
+        background: "var(--bg-tertiary)",
+        border: "none",
+        borderRadius: 6,
+        padding: "6px 12px",
+        color: "var(--text-primary)",
+        fontSize: 13,
+        cursor: "pointer",
+    },
     conflictList: {
         flex: 1,
         overflow: "auto",
@@ -181,6 +331,59 @@ const styles: Record<string, React.CSSProperties> = {
         overflow: "auto",
         maxHeight: 200,
     },
+    manualButton: {
+        alignSelf: "flex-start",
+        background: "transparent",
+        border: "1px dashed var(--text-secondary)",
+        borderRadius: 6,
+        padding: "6px 12px",
+        color: "var(--text-secondary)",
+        fontSize: 12,
+        cursor: "pointer",
+    },
+    manualButtonSelected: {
+        borderStyle: "solid",
+        borderColor: "var(--success)",
+        color: "var(--success)",
+    },
+    manualEditor: {
+        display: "flex",
+        flexDirection: "column",
+        gap: 8,
+        background: "var(--bg-tertiary)",
+        borderRadius: 8,
+        padding: 12,
+    },
+    manualHeader: {
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "space-between",
+    },
+    manualHint: {
+        fontSize: 12,
+        color: "#f59e0b",
+    },
+    manualEditorBody: {
+        background: "var(--bg-primary)",
+        borderRadius: 4,
+        maxHeight: 400,
+        overflow: "auto",
+    },
+    manualActions: {
+        display: "flex",
+        justifyContent: "flex-end",
+        gap: 8,
+    },
+    saveButton: {
+        background: "var(--success)",
+        border: "none",
+        borderRadius: 6,
+        padding: "6px 12px",
+        color: "white",
+        fontSize: 13,
+        fontWeight: 600,
+        cursor: "pointer",
+    },
     footer: {
         padding: "16px 24px",
         borderTop: "1px solid var(--bg-tertiary)",
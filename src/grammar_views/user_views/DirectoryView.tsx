@@ -1,23 +1,24 @@
 import { useState, useRef, useEffect } from "react"
 import { CID } from "../../version_control/cid"
 import { Directory, Document } from "../../version_control/immutable/grammar"
+import { Path, Paths } from "../../version_control/path"
 
 type DirectoryViewProps = {
     directory: Directory
-    directoryCid: CID<Directory>
+    directoryPath: Path<Directory>
     resolveCid: <T>(cid: CID<T>) => T | undefined
-    selectedDocumentCid: CID<Document> | null
-    onSelectDocument: (cid: CID<Document>) => void
-    onAddDirectory: (parentCid: CID<Directory>, name: string) => void
-    onAddDocument: (parentCid: CID<Directory>, name: string) => void
+    selectedDocumentPath: Path<Document> | null
+    onSelectDocument: (path: Path<Document>) => void
+    onAddDirectory: (parentPath: Path<Directory>, name: string) => void
+    onAddDocument: (parentPath: Path<Directory>, name: string) => void
     depth?: number
 }
 
 export function DirectoryView({
     directory,
-    directoryCid,
+    directoryPath,
     resolveCid,
-    selectedDocumentCid,
+    selectedDocumentPath,
     onSelectDocument,
     onAddDirectory,
     onAddDocument,
@@ -47,9 +48,9 @@ export function DirectoryView({
     const handleSubmit = () => {
         if (newName.trim()) {
             if (isAddingFolder) {
-                onAddDirectory(directoryCid, newName.trim())
+                onAddDirectory(directoryPath, newName.trim())
             } else if (isAddingDoc) {
-                onAddDocument(directoryCid, newName.trim())
+                onAddDocument(directoryPath, newName.trim())
             }
         }
         setIsAddingFolder(false)
@@ -128,20 +129,21 @@ export function DirectoryView({
                     </div>
                 )}
 
-                {directory.children.map((childCid) => {
+                {directory.children.map((childCid, index) => {
                     // Type assertion needed because children can be Directory or Document
                     const child = resolveCid(childCid as CID<Directory | Document>) as (Directory | Document) | undefined
                     if (!child) return null
+                    const childPath = Paths.child<Directory | Document>(directoryPath, "children", index)
 
                     if (child.type === "folder") {
                         const dir = child as Directory
                         return (
                             <DirectoryView
-                                key={childCid}
+                                key={`${childCid}-${index}`}
                                 directory={dir}
-                                directoryCid={childCid as CID<Directory>}
+                                directoryPath={childPath as Path<Directory>}
                                 resolveCid={resolveCid}
-                                selectedDocumentCid={selectedDocumentCid}
+                                selectedDocumentPath={selectedDocumentPath}
                                 onSelectDocument={onSelectDocument}
                                 onAddDirectory={onAddDirectory}
                                 onAddDocument={onAddDocument}
@@ -150,15 +152,15 @@ export function DirectoryView({
                         )
                     } else {
                         const doc = child as Document & { name?: string }
-                        const isSelected = selectedDocumentCid === childCid
+                        const isSelected = selectedDocumentPath !== null && Paths.equals(selectedDocumentPath, childPath)
                         return (
                             <div
-                                key={childCid}
+                                key={`${childCid}-${index}`}
                                 style={{
                                     ...styles.documentItem,
                                     ...(isSelected ? styles.documentItemSelected : {})
                                 }}
-                                onClick={() => onSelectDocument(childCid as CID<Document>)}
+                                onClick={() => onSelectDocument(childPath as Path<Document>)}
                             >
                                 <span style={styles.docIcon}>📄</span>
                                 <span>{doc.name || "Untitled"}</span>
@@ -1,6 +1,6 @@
 import { useCallback, useMemo, useEffect, useRef } from "react"
-import { createEditor, Descendant, Editor, Element as SlateElement, Transforms } from "slate"
-import { Slate, Editable, withReact, RenderElementProps, RenderLeafProps } from "slate-react"
+import { createEditor, Descendant, Editor, Element as SlateElement, Node, Transforms } from "slate"
+import { Slate, Editable, withReact, ReactEditor, useSlateStatic, RenderElementProps, RenderLeafProps } from "slate-react"
 import { withHistory } from "slate-history"
 
 type DocumentEditorProps = {
@@ -10,7 +10,7 @@ type DocumentEditorProps = {
 }
 
 export function DocumentEditor({ value, onChange, readOnly = false }: DocumentEditorProps) {
-    const editor = useMemo(() => withHistory(withReact(createEditor())), [])
+    const editor = useMemo(() => withConflicts(withHistory(withReact(createEditor()))), [])
     const isExternalChange = useRef(false)
     
     // Update editor content when value prop changes from outside
@@ -105,6 +105,13 @@ export function DocumentEditor({ value, onChange, readOnly = false }: DocumentEd
                     </div>
                 )
 
+            case "conflict":
+                return (
+                    <ConflictBlock attributes={attributes} element={element} readOnly={readOnly}>
+                        {children}
+                    </ConflictBlock>
+                )
+
             default:
                 return (
                     <p {...attributes} style={styles.paragraph}>
@@ -112,7 +119,7 @@ export function DocumentEditor({ value, onChange, readOnly = false }: DocumentEd
                     </p>
                 )
         }
-    }, [])
+    }, [readOnly])
 
     const renderLeaf = useCallback((props: RenderLeafProps) => {
         let { children } = props
@@ -242,6 +249,69 @@ export function DocumentEditor({ value, onChange, readOnly = false }: DocumentEd
     )
 }
 
+type ConflictChoice = "ours" | "theirs" | "both"
+
+// Unresolved merge conflict: both sides side by side, replaced by the chosen blocks
+function ConflictBlock({
+    attributes,
+    element,
+    readOnly,
+    children,
+}: {
+    attributes: RenderElementProps["attributes"]
+    element: SlateElement
+    readOnly: boolean
+    children: React.ReactNode
+}) {
+    const editor = useSlateStatic()
+
+    const choose = (e: React.MouseEvent, choice: ConflictChoice) => {
+        e.preventDefault()
+        resolveConflict(editor, element, choice)
+    }
+
+    return (
+        <div {...attributes} contentEditable={false} style={styles.conflict}>
+            <div style={styles.conflictHeader}>
+                <span>Merge conflict</span>
+                {!readOnly && (
+                    <span style={styles.conflictActions}>
+                        <button style={styles.conflictButton} onMouseDown={(e) => choose(e, "ours")}>
+                            Take ours
+                        </button>
+                        <button style={styles.conflictButton} onMouseDown={(e) => choose(e, "theirs")}>
+                            Take theirs
+                        </button>
+                        <button style={styles.conflictButton} onMouseDown={(e) => choose(e, "both")}>
+                            Take both
+                        </button>
+                    </span>
+                )}
+            </div>
+            <div style={styles.conflictSides}>
+                <ConflictSide label="Ours" blocks={element.oursContent ?? []} />
+                <ConflictSide label="Theirs" blocks={element.theirsContent ?? []} />
+            </div>
+            {children}
+        </div>
+    )
+}
+
+function ConflictSide({ label, blocks }: { label: string; blocks: SlateElement[] }) {
+    return (
+        <div style={styles.conflictSide}>
+            <div style={styles.conflictLabel}>{label}</div>
+            {blocks.length === 0 ? (
+                <div style={styles.conflictEmpty}>(removed)</div>
+            ) : (
+                blocks.map((block, i) => (
+                    <div key={i} style={styles.conflictText}>{Node.string(block)}</div>
+                ))
+            )}
+        </div>
+    )
+}
+
 function ToolbarButton({
     icon,
     title,
@@ -258,6 +328,28 @@ function ToolbarButton({
     )
 }
 
+function withConflicts(editor: Editor) {
+    const { isVoid } = editor
+    editor.isVoid = (element) => element.type === "conflict" || isVoid(element)
+    return editor
+}
+
+function resolveConflict(editor: Editor, element: SlateElement, choice: ConflictChoice) {
+    const ours = element.oursContent ?? []
+    const theirs = element.theirsContent ?? []
+    const blocks = choice === "ours" ? ours : choice === "theirs" ? theirs : [...ours, ...theirs]
+    const at = ReactEditor.findPath(editor, element)
+
+    Editor.withoutNormalizing(editor, () => {
+        Transforms.removeNodes(editor, { at })
+        if (blocks.length > 0) {
+            Transforms.insertNodes(editor, structuredClone(blocks), { at })
+        } else if (editor.children.length === 0) {
+            Transforms.insertNodes(editor, { type: "paragraph", children: [{ text: "" }] }, { at })
+        }
+    })
+}
+
 function toggleMark(editor: Editor, mark: string) {
     const isActive = isMarkActive(editor, mark)
     if (isActive) {
@@ -377,6 +469,61 @@ const styles: Record<string, React.CSSProperties> = {
         maxWidth: "100%",
         borderRadius: 4,
     },
+    conflict: {
+        border: "1px solid #f59e0b",
+        borderRadius: 6,
+        marginBottom: "1em",
+        overflow: "hidden",
+        fontStyle: "normal",
+    },
+    conflictHeader: {
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        padding: "6px 10px",
+        background: "rgba(245, 158, 11, 0.15)",
+        color: "#f59e0b",
+        fontSize: 12,
+        fontWeight: 600,
+    },
+    conflictActions: {
+        display: "flex",
+        gap: 6,
+    },
+    conflictButton: {
+        background: "transparent",
+        border: "1px solid rgba(245, 158, 11, 0.5)",
+        borderRadius: 4,
+        padding: "2px 8px",
+        color: "#f59e0b",
+        fontSize: 11,
+        cursor: "pointer",
+    },
+    conflictSides: {
+        display: "flex",
+    },
+    conflictSide: {
+        flex: 1,
+        padding: "8px 10px",
+        borderRight: "1px solid var(--bg-tertiary)",
+        fontSize: 13,
+        minWidth: 0,
+    },
+    conflictLabel: {
+        fontSize: 10,
+        fontWeight: 600,
+        textTransform: "uppercase",
+        color: "var(--text-secondary)",
+        marginBottom: 4,
+    },
+    conflictText: {
+        whiteSpace: "pre-wrap",
+        marginBottom: "0.5em",
+    },
+    conflictEmpty: {
+        color: "var(--text-secondary)",
+        fontStyle: "italic",
+    },
     inlineCode: {
         background: "var(--bg-tertiary)",
         padding: "2px 6px",
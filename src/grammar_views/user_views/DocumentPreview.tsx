@@ -0,0 +1,239 @@
+import { CID } from "../../version_control/cid"
+import { Document, BlockNode, InlineNode } from "../../version_control/immutable/grammar"
+
+// Document Preview Component
+export function DocumentPreview({
+    doc,
+    resolveCid,
+    variant,
+}: {
+    doc: Document & { name?: string }
+    resolveCid: <T>(cid: CID<T>) => T | undefined
+    variant?: "added" | "removed" | "selected"
+}) {
+    if (doc.content.length === 0) {
+        return <div style={styles.emptyDoc}>Empty document</div>
+    }
+
+    const contentStyle = variant === "added" 
+        ? styles.addedContent 
+        : variant === "removed" 
+        ? styles.removedContent 
+        : variant === "selected"
+        ? styles.selectedContent
+        : {}
+
+    return (
+        <div style={contentStyle}>
+            {doc.content.map((blockCid, i) => (
+                <BlockPreview
+                    key={`${blockCid}-${i}`}
+                    blockCid={blockCid}
+                    resolveCid={resolveCid}
+                />
+            ))}
+        </div>
+    )
+}
+
+export function BlockPreview({
+    blockCid,
+    resolveCid,
+}: {
+    blockCid: CID<BlockNode>
+    resolveCid: <T>(cid: CID<T>) => T | undefined
+}) {
+    const block = resolveCid(blockCid) as BlockNode | undefined
+    if (!block) return null
+
+    switch (block.type) {
+        case "heading":
+            return (
+                <div style={{ ...styles.blockHeading, fontSize: 20 - (block.level - 1) * 2 }}>
+                    <InlinePreview inlineCids={block.content} resolveCid={resolveCid} />
+                </div>
+            )
+        case "paragraph":
+            return (
+                <p style={styles.blockParagraph}>
+                    <InlinePreview inlineCids={block.content} resolveCid={resolveCid} />
+                </p>
+            )
+        case "code_block":
+            return <pre style={styles.blockCode}>{block.value}</pre>
+        case "list": {
+            const ListTag = block.ordered ? "ol" : "ul"
+            return (
+                <ListTag style={styles.blockList}>
+                    {block.items.map((itemCid, i) => {
+                        const item = resolveCid(itemCid)
+                        if (!item) return null
+                        return (
+                            <li key={i}>
+                                {item.content.map((bc, j) => (
+                                    <BlockPreview key={j} blockCid={bc} resolveCid={resolveCid} />
+                                ))}
+                            </li>
+                        )
+                    })}
+                </ListTag>
+            )
+        }
+        case "blockquote":
+            return (
+                <blockquote style={styles.blockQuote}>
+                    {block.content.map((bc, i) => (
+                        <BlockPreview key={i} blockCid={bc} resolveCid={resolveCid} />
+                    ))}
+                </blockquote>
+            )
+        case "horizontal_rule":
+            return <hr style={styles.blockHr} />
+        case "conflict":
+            return (
+                <div style={styles.blockConflict}>
+                    <div style={styles.blockConflictLabel}>Unresolved conflict · ours</div>
+                    {block.ours.map((bc, i) => (
+                        <BlockPreview key={i} blockCid={bc} resolveCid={resolveCid} />
+                    ))}
+                    <div style={styles.blockConflictLabel}>theirs</div>
+                    {block.theirs.map((bc, i) => (
+                        <BlockPreview key={i} blockCid={bc} resolveCid={resolveCid} />
+                    ))}
+                </div>
+            )
+        default:
+            return null
+    }
+}
+
+function InlinePreview({
+    inlineCids,
+    resolveCid,
+}: {
+    inlineCids: CID<InlineNode>[]
+    resolveCid: <T>(cid: CID<T>) => T | undefined
+}) {
+    return (
+        <>
+            {inlineCids.map((cid, i) => {
+                const inline = resolveCid(cid) as InlineNode | undefined
+                if (!inline) return null
+
+                switch (inline.type) {
+                    case "text":
+                        return <span key={i}>{inline.value}</span>
+                    case "strong":
+                        return (
+                            <strong key={i}>
+                                <InlinePreview inlineCids={inline.content} resolveCid={resolveCid} />
+                            </strong>
+                        )
+                    case "emphasis":
+                        return (
+                            <em key={i}>
+                                <InlinePreview inlineCids={inline.content} resolveCid={resolveCid} />
+                            </em>
+                        )
+                    case "code_span":
+                        return <code key={i} style={styles.inlineCode}>{inline.value}</code>
+                    case "link":
+                        return (
+                            <a key={i} href={inline.href} style={styles.inlineLink}>
+                                <InlinePreview inlineCids={inline.content} resolveCid={resolveCid} />
+                            </a>
+                        )
+                    default:
+                        return null
+                }
+            })}
+        </>
+    )
+}
+
+const styles: Record<string, React.CSSProperties> = {
+    addedContent: {
+        background: "rgba(34, 197, 94, 0.05)",
+        borderRadius: 4,
+        padding: 8,
+    },
+    removedContent: {
+        background: "rgba(239, 68, 68, 0.05)",
+        borderRadius: 4,
+        padding: 8,
+    },
+    selectedContent: {
+        background: "rgba(34, 197, 94, 0.1)",
+        borderRadius: 4,
+        padding: 8,
+        borderWidth: 2,
+        borderStyle: "solid",
+        borderColor: "var(--success)",
+    },
+    emptyDoc: {
+        color: "var(--text-secondary)",
+        fontStyle: "italic",
+        fontSize: 13,
+    },
+    // Block styles
+    blockHeading: {
+        fontWeight: 600,
+        marginBottom: 8,
+        color: "var(--text-primary)",
+    },
+    blockParagraph: {
+        margin: "0 0 8px 0",
+        lineHeight: 1.6,
+        color: "var(--text-primary)",
+        fontSize: 14,
+    },
+    blockCode: {
+        background: "var(--bg-primary)",
+        padding: 12,
+        borderRadius: 4,
+        fontFamily: "var(--font-mono)",
+        fontSize: 12,
+        margin: "0 0 8px 0",
+        overflow: "auto",
+    },
+    blockList: {
+        margin: "0 0 8px 0",
+        paddingLeft: 20,
+    },
+    blockQuote: {
+        margin: "0 0 8px 0",
+        paddingLeft: 12,
+        borderLeft: "3px solid var(--accent)",
+        color: "var(--text-secondary)",
+        fontStyle: "italic",
+    },
+    blockHr: {
+        border: "none",
+        borderTop: "1px solid var(--bg-tertiary)",
+        margin: "16px 0",
+    },
+    blockConflict: {
+        margin: "0 0 8px 0",
+        padding: "6px 10px",
+        border: "1px dashed #f59e0b",
+        borderRadius: 4,
+    },
+    blockConflictLabel: {
+        fontSize: 10,
+        fontWeight: 600,
+        textTransform: "uppercase",
+        color: "#f59e0b",
+        marginBottom: 4,
+    },
+    inlineCode: {
+        background: "var(--bg-tertiary)",
+        padding: "2px 4px",
+        borderRadius: 3,
+        fontFamily: "var(--font-mono)",
+        fontSize: "0.9em",
+    },
+    inlineLink: {
+        color: "var(--accent)",
+        textDecoration: "underline",
+    },
+}
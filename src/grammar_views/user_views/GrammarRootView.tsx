@@ -1,22 +1,23 @@
 import { useState, useRef, useEffect } from "react"
 import { CID } from "../../version_control/cid"
 import { Directory, Document, GrammarRoot } from "../../version_control/immutable/grammar"
+import { Path, Paths } from "../../version_control/path"
 import { DirectoryView } from "./DirectoryView"
 
 type GrammarRootViewProps = {
     grammarRoot: GrammarRoot
     resolveCid: <T>(cid: CID<T>) => T | undefined
-    selectedDocumentCid: CID<Document> | null
-    onSelectDocument: (cid: CID<Document>) => void
+    selectedDocumentPath: Path<Document> | null
+    onSelectDocument: (path: Path<Document>) => void
     onAddRootDirectory: (name: string) => void
-    onAddDirectory: (parentCid: CID<Directory>, name: string) => void
-    onAddDocument: (parentCid: CID<Directory>, name: string) => void
+    onAddDirectory: (parentPath: Path<Directory>, name: string) => void
+    onAddDocument: (parentPath: Path<Directory>, name: string) => void
 }
 
 export function GrammarRootView({
     grammarRoot,
     resolveCid,
-    selectedDocumentCid,
+    selectedDocumentPath,
     onSelectDocument,
     onAddRootDirectory,
     onAddDirectory,
@@ -93,16 +94,16 @@ export function GrammarRootView({
                         No folders yet. Click + to create one.
                     </div>
                 ) : (
-                    grammarRoot.content.map((dirCid) => {
+                    grammarRoot.content.map((dirCid, index) => {
                         const dir = resolveCid(dirCid)
                         if (!dir) return null
                         return (
                             <DirectoryView
-                                key={dirCid}
+                                key={`${dirCid}-${index}`}
                                 directory={dir as Directory}
-                                directoryCid={dirCid}
+                                directoryPath={Paths.of(["content", index])}
                                 resolveCid={resolveCid}
-                                selectedDocumentCid={selectedDocumentCid}
+                                selectedDocumentPath={selectedDocumentPath}
                                 onSelectDocument={onSelectDocument}
                                 onAddDirectory={onAddDirectory}
                                 onAddDocument={onAddDocument}
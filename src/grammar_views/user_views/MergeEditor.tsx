@@ -0,0 +1,276 @@
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Descendant, Element as SlateElement } from "slate"
+import { CID } from "../../version_control/cid"
+import { BlockNode, Conflict, Document } from "../../version_control/immutable/grammar"
+import { ContentStore } from "../../version_control/store/ContentStore"
+import { BlockHunk, ThreeWayMerge } from "../../version_control/ThreeWayMerge"
+import { documentToSlate } from "../../projection"
+import { BlockPreview } from "./DocumentPreview"
+import { DocumentEditor } from "./DocumentEditor"
+
+type HunkChoice = "ours" | "theirs" | "both"
+
+type MergeEditorProps = {
+    /** The document at the merge base, if it existed there */
+    base?: Document
+    ours: Document
+    theirs: Document
+    oursLabel: string
+    theirsLabel: string
+    store: Pick<ContentStore, "put" | "get">
+    resolveCid: <T>(cid: CID<T>) => T | undefined
+    /**
+     * Called with the result once no conflicting hunk is left, null until then.
+     * The result is only stored as a document when the merge happens.
+     */
+    onResult: (result: Descendant[] | null) => void
+}
+
+/**
+ * Three-way merge editor for one document: base, ours and theirs side by side
+ * with their hunks aligned, and an editable result below. Conflicting hunks
+ * start as conflict blocks in the result and are accepted one by one.
+ */
+export function MergeEditor({ base, ours, theirs, oursLabel, theirsLabel, store, resolveCid, onResult }: MergeEditorProps) {
+    const hunks = useMemo(
+        () => ThreeWayMerge.alignBlocks(base?.content ?? [], ours.content, theirs.content, store),
+        [base, ours, theirs, store]
+    )
+    const [result, setResult] = useState<Descendant[]>(() =>
+        documentToSlate({ ...ours, content: hunks.flatMap(hunk => hunk.merged ?? [conflictBlock(hunk, store)]) }, store.get)
+    )
+    const [accepted, setAccepted] = useState<Record<number, HunkChoice>>({})
+
+    const pendingCount = result.filter(isConflictElement).length
+
+    // Report only when the result changes, however often the parent re-renders
+    const onResultRef = useRef(onResult)
+    onResultRef.current = onResult
+    useEffect(() => {
+        onResultRef.current(pendingCount === 0 ? result : null)
+    }, [result, pendingCount])
+
+    const acceptHunk = (index: number, choice: HunkChoice) => {
+        const hunk = hunks[index]
+        setResult(current => {
+            const at = current.findIndex(node => isConflictElement(node) && sameHunk(node, hunk))
+            if (at === -1) return current
+
+            const element = current[at] as SlateElement
+            const oursBlocks = element.oursContent ?? []
+            const theirsBlocks = element.theirsContent ?? []
+            const blocks = choice === "ours" ? oursBlocks : choice === "theirs" ? theirsBlocks : [...oursBlocks, ...theirsBlocks]
+            const next = [...current.slice(0, at), ...structuredClone(blocks), ...current.slice(at + 1)]
+            return next.length > 0 ? next : [{ type: "paragraph", children: [{ text: "" }] }]
+        })
+        setAccepted(prev => ({ ...prev, [index]: choice }))
+    }
+
+    const hunkStatus = (index: number): HunkChoice | "pending" | "edited" => {
+        if (result.some(node => isConflictElement(node) && sameHunk(node, hunks[index]))) return "pending"
+        return accepted[index] ?? "edited"
+    }
+
+    return (
+        <div style={styles.container}>
+            <div style={styles.columns}>
+                <div style={styles.columnHeader}>Base</div>
+                <div style={styles.columnHeader}>Ours · {oursLabel}</div>
+                <div style={styles.columnHeader}>Theirs · {theirsLabel}</div>
+
+                {hunks.map((hunk, index) => hunk.kind === "stable" ? (
+                    <div key={index} style={styles.stableRow}>
+                        <Blocks cids={hunk.base} resolveCid={resolveCid} />
+                    </div>
+                ) : (
+                    <HunkRow
+                        key={index}
+                        hunk={hunk}
+                        resolveCid={resolveCid}
+                        status={hunk.kind === "conflict" ? hunkStatus(index) : null}
+                        onAccept={(choice) => acceptHunk(index, choice)}
+                    />
+                ))}
+            </div>
+
+            <div style={styles.resultHeader}>
+                <span>Result</span>
+                <span style={pendingCount > 0 ? styles.pending : styles.done}>
+                    {pendingCount > 0
+                        ? `${pendingCount} conflicting ${pendingCount === 1 ? "hunk" : "hunks"} left`
+                        : "✓ All hunks resolved"}
+                </span>
+            </div>
+            <div style={styles.result}>
+                <DocumentEditor value={result} onChange={setResult} />
+            </div>
+        </div>
+    )
+}
+
+function HunkRow({
+    hunk,
+    resolveCid,
+    status,
+    onAccept,
+}: {
+    hunk: BlockHunk
+    resolveCid: <T>(cid: CID<T>) => T | undefined
+    /** null for hunks that merged cleanly */
+    status: HunkChoice | "pending" | "edited" | null
+    onAccept: (choice: HunkChoice) => void
+}) {
+    const isPending = status === "pending"
+    const cellStyle = {
+        ...styles.cell,
+        ...(status === null ? styles.cleanCell : isPending ? styles.conflictCell : styles.resolvedCell),
+    }
+
+    return (
+        <>
+            <div style={cellStyle}>
+                <Blocks cids={hunk.base} resolveCid={resolveCid} />
+            </div>
+            <div style={cellStyle}>
+                <Blocks cids={hunk.ours} resolveCid={resolveCid} />
+                {isPending && (
+                    <button style={styles.acceptButton} onClick={() => onAccept("ours")}>
+                        Accept ours
+                    </button>
+                )}
+            </div>
+            <div style={cellStyle}>
+                <Blocks cids={hunk.theirs} resolveCid={resolveCid} />
+                {isPending && (
+                    <div style={styles.acceptRow}>
+                        <button style={styles.acceptButton} onClick={() => onAccept("theirs")}>
+                            Accept theirs
+                        </button>
+                        <button style={styles.acceptButton} onClick={() => onAccept("both")}>
+                            Accept both
+                        </button>
+                    </div>
+                )}
+            </div>
+            {status !== null && !isPending && (
+                <div style={styles.hunkStatus}>
+                    ✓ {status === "edited" ? "Resolved in result" : status === "both" ? "Accepted both" : `Accepted ${status}`}
+                </div>
+            )}
+        </>
+    )
+}
+
+function Blocks({ cids, resolveCid }: { cids: CID<BlockNode>[], resolveCid: <T>(cid: CID<T>) => T | undefined }) {
+    if (cids.length === 0) return <div style={styles.empty}>(nothing)</div>
+    return (
+        <>
+            {cids.map((cid, i) => <BlockPreview key={`${cid}-${i}`} blockCid={cid} resolveCid={resolveCid} />)}
+        </>
+    )
+}
+
+// Stands in for a conflicting hunk in the result until it is accepted
+function conflictBlock(hunk: BlockHunk, store: Pick<ContentStore, "put">): CID<BlockNode> {
+    return store.put<Conflict>({ type: "conflict", base: hunk.base, ours: hunk.ours, theirs: hunk.theirs })
+}
+
+function isConflictElement(node: Descendant): node is SlateElement {
+    return SlateElement.isElement(node) && node.type === "conflict"
+}
+
+function sameHunk(element: SlateElement, hunk: BlockHunk): boolean {
+    const same = (a: string[] | undefined, b: string[]) => a?.length === b.length && a.every((id, i) => id === b[i])
+    return same(element.base, hunk.base) && same(element.ours, hunk.ours) && same(element.theirs, hunk.theirs)
+}
+
+const styles: Record<string, React.CSSProperties> = {
+    container: {
+        display: "flex",
+        flexDirection: "column",
+        gap: 8,
+        padding: 12,
+    },
+    columns: {
+        display: "grid",
+        gridTemplateColumns: "1fr 1fr 1fr",
+        gap: 4,
+    },
+    columnHeader: {
+        fontSize: 11,
+        fontWeight: 600,
+        textTransform: "uppercase",
+        color: "var(--text-secondary)",
+        padding: "4px 8px",
+    },
+    stableRow: {
+        gridColumn: "1 / -1",
+        padding: "4px 8px",
+        opacity: 0.6,
+    },
+    cell: {
+        padding: "6px 8px",
+        borderRadius: 4,
+        minWidth: 0,
+        overflow: "auto",
+    },
+    cleanCell: {
+        background: "rgba(59, 130, 246, 0.06)",
+    },
+    conflictCell: {
+        background: "rgba(245, 158, 11, 0.1)",
+        border: "1px solid #f59e0b",
+    },
+    resolvedCell: {
+        background: "rgba(34, 197, 94, 0.06)",
+        border: "1px solid var(--success)",
+    },
+    hunkStatus: {
+        gridColumn: "1 / -1",
+        fontSize: 11,
+        color: "var(--success)",
+        padding: "0 8px 4px",
+    },
+    acceptRow: {
+        display: "flex",
+        gap: 6,
+    },
+    acceptButton: {
+        background: "var(--bg-tertiary)",
+        border: "1px solid var(--accent)",
+        borderRadius: 4,
+        padding: "3px 8px",
+        color: "var(--accent)",
+        fontSize: 11,
+        cursor: "pointer",
+        marginTop: 4,
+    },
+    empty: {
+        color: "var(--text-secondary)",
+        fontStyle: "italic",
+        fontSize: 12,
+    },
+    resultHeader: {
+        display: "flex",
+        justifyContent: "space-between",
+        alignItems: "center",
+        fontSize: 11,
+        fontWeight: 600,
+        textTransform: "uppercase",
+        color: "var(--text-secondary)",
+        marginTop: 8,
+    },
+    pending: {
+        color: "#f59e0b",
+        textTransform: "none",
+    },
+    done: {
+        color: "var(--success)",
+        textTransform: "none",
+    },
+    result: {
+        background: "var(--bg-primary)",
+        border: "1px solid var(--bg-tertiary)",
+        borderRadius: 4,
+    },
+}
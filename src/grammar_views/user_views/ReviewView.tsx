@@ -1,18 +1,30 @@
 import { useState, useMemo } from "react"
-import { CID, CIDable } from "../../version_control/cid"
-import { Document, BlockNode, InlineNode } from "../../version_control/immutable/grammar"
+import { Descendant } from "slate"
+import { CID } from "../../version_control/cid"
+import { BlockNode, Document } from "../../version_control/immutable/grammar"
 import { Branch } from "../../version_control/mutable/branch"
+import { ContentStore } from "../../version_control/store/ContentStore"
+import { DeleteChoice, Review } from "../../version_control/Review"
+import { BlockHunk, MergeResolutions, MergeStrategy, ThreeWayMerge } from "../../version_control/ThreeWayMerge"
+import { DocumentInfo } from "../../version_control/TreeWalker"
+import { blocksToSlate, slateToDocument } from "../../projection"
+import { BlockPreview, DocumentPreview } from "./DocumentPreview"
+import { DocumentEditor } from "./DocumentEditor"
+import { MergeEditor } from "./MergeEditor"
 
-type DocumentInfo = {
-    cid: CID<Document>
-    doc: Document & { name?: string }
-    path: string
-}
+/**
+ * How one conflicting region of a document is resolved; edited holds the
+ * hand-edited blocks, stored only when the merge happens
+ */
+type BlockChoice = "ours" | "theirs" | "both" | { edited: Descendant[] }
 
-type Resolution = "ours" | "theirs" | null
+/** Choices of one document, by index of the conflicting hunk */
+type BlockChoices = {
+    [hunk: number]: BlockChoice
+}
 
 type ConflictState = {
-    [path: string]: Resolution
+    [path: string]: BlockChoices
 }
 
 type ReviewViewProps = {
@@ -20,9 +32,17 @@ type ReviewViewProps = {
     defaultBranch: Branch
     featureDocuments: DocumentInfo[]
     defaultDocuments: DocumentInfo[]
+    /** Documents at the merge base of the two branches */
+    baseDocuments: DocumentInfo[]
+    /** Folder paths on each side, to show deleted folders */
+    featureFolders: string[]
+    defaultFolders: string[]
+    baseFolders: string[]
+    /** Stores the documents built from conflict resolutions */
+    store: Pick<ContentStore, "put" | "get">
     resolveCid: <T>(cid: CID<T>) => T | undefined
-    hasConflicts: boolean
-    onMerge: () => void
+    /** Receives the chosen version of each conflicting document, by path, and how to record the merge */
+    onMerge: (resolutions: MergeResolutions, strategy: MergeStrategy) => void
     onBackToEdit: () => void
 }
 
@@ -31,75 +51,96 @@ export function ReviewView({
     defaultBranch,
     featureDocuments,
     defaultDocuments,
+    baseDocuments,
+    featureFolders,
+    defaultFolders,
+    baseFolders,
+    store,
     resolveCid,
-    hasConflicts,
     onMerge,
     onBackToEdit,
 }: ReviewViewProps) {
-    // Track conflict resolutions
+    // Track conflict resolutions, block by block
     const [resolutions, setResolutions] = useState<ConflictState>({})
+    // Documents with the merge editor open, and its result once every hunk is accepted
+    const [mergedResults, setMergedResults] = useState<Record<string, Descendant[] | null>>({})
+    const [deleteChoices, setDeleteChoices] = useState<Record<string, DeleteChoice>>({})
+    const [strategy, setStrategy] = useState<MergeStrategy>("merge-commit")
 
-    // Build a map of default documents by path for comparison
-    const defaultDocsByPath = useMemo(() => {
-        const map = new Map<string, DocumentInfo>()
-        for (const doc of defaultDocuments) {
-            map.set(doc.path, doc)
-        }
-        return map
-    }, [defaultDocuments])
+    // Categorize documents by which side changed them since the merge base
+    const { added, modified, deleted, conflicts, deleteConflicts, unchanged } = useMemo(
+        () => Review.categorize(baseDocuments, featureDocuments, defaultDocuments, store),
+        [baseDocuments, featureDocuments, defaultDocuments, store]
+    )
+
+    // Folders this branch deleted that are still on default
+    const deletedFolders = useMemo(
+        () => Review.deletedFolders(baseFolders, featureFolders, defaultFolders),
+        [featureFolders, defaultFolders, baseFolders]
+    )
+
+    const conflictCount = conflicts.length + deleteConflicts.length
+    const hasConflicts = conflictCount > 0
 
-    // Build a map of feature documents by path
-    const featureDocsByPath = useMemo(() => {
-        const map = new Map<string, DocumentInfo>()
-        for (const doc of featureDocuments) {
-            map.set(doc.path, doc)
+    // Aligned hunks of each conflicting document against the merge base
+    const conflictHunks = useMemo(() => {
+        const map = new Map<string, BlockHunk[]>()
+        for (const { feature, base, ancestor } of conflicts) {
+            map.set(feature.path, ThreeWayMerge.alignBlocks(
+                ancestor?.doc.content ?? [],
+                feature.doc.content,
+                base.doc.content,
+                store
+            ))
         }
         return map
-    }, [featureDocuments])
-
-    // Categorize documents
-    const { added, modified, conflicts, unchanged } = useMemo(() => {
-        const added: DocumentInfo[] = []
-        const modified: { feature: DocumentInfo; base: DocumentInfo }[] = []
-        const conflicts: { feature: DocumentInfo; base: DocumentInfo }[] = []
-        const unchanged: DocumentInfo[] = []
-
-        for (const featureDoc of featureDocuments) {
-            const baseDoc = defaultDocsByPath.get(featureDoc.path)
-            if (!baseDoc) {
-                added.push(featureDoc)
-            } else if (baseDoc.cid !== featureDoc.cid) {
-                // If there are conflicts (default has diverged), mark as conflict
-                // Otherwise it's just a modification
-                if (hasConflicts) {
-                    conflicts.push({ feature: featureDoc, base: baseDoc })
-                } else {
-                    modified.push({ feature: featureDoc, base: baseDoc })
-                }
-            } else {
-                unchanged.push(featureDoc)
-            }
-        }
+    }, [conflicts, store])
 
-        // Also check for documents that exist in default but not in feature (deleted)
-        // For now, we'll skip this case
+    const isResolved = (path: string) => {
+        if (path in mergedResults) return mergedResults[path] !== null
+        const choices = resolutions[path] ?? {}
+        return (conflictHunks.get(path) ?? []).every((hunk, i) => hunk.kind !== "conflict" || choices[i] !== undefined)
+    }
 
-        return { added, modified, conflicts, unchanged }
-    }, [featureDocuments, defaultDocsByPath, hasConflicts])
+    // Count resolved conflicts
+    const resolvedCount = conflicts.filter(({ feature }) => isResolved(feature.path)).length
+        + deleteConflicts.filter(({ path }) => deleteChoices[path]).length
 
     // Check if all conflicts are resolved
-    const allConflictsResolved = useMemo(() => {
-        if (!hasConflicts) return true
-        return conflicts.every(({ feature }) => resolutions[feature.path] !== undefined && resolutions[feature.path] !== null)
-    }, [conflicts, resolutions, hasConflicts])
+    const allConflictsResolved = resolvedCount === conflictCount
 
-    // Count resolved conflicts
-    const resolvedCount = useMemo(() => {
-        return conflicts.filter(({ feature }) => resolutions[feature.path]).length
-    }, [conflicts, resolutions])
+    const handleChooseBlock = (path: string, hunk: number, choice: BlockChoice) => {
+        setResolutions(prev => ({ ...prev, [path]: { ...prev[path], [hunk]: choice } }))
+    }
+
+    // The merge editor reports its result whenever it changes; undefined closes it
+    const handleMergedResult = (path: string, result: Descendant[] | null | undefined) => {
+        setMergedResults(prev => {
+            const next = { ...prev }
+            if (result === undefined) {
+                delete next[path]
+            } else {
+                next[path] = result
+            }
+            return next
+        })
+    }
 
-    const handleResolve = (path: string, resolution: Resolution) => {
-        setResolutions(prev => ({ ...prev, [path]: resolution }))
+    const handleMerge = () => {
+        const chosen: MergeResolutions = {}
+        for (const { feature } of conflicts) {
+            if (!isResolved(feature.path)) continue
+            const merged = mergedResults[feature.path]
+            chosen[feature.path] = merged
+                ? slateToDocument(merged, store, feature.doc).documentCid
+                : buildDocument(
+                    feature.doc,
+                    conflictHunks.get(feature.path) ?? [],
+                    resolutions[feature.path] ?? {},
+                    store
+                )
+        }
+        onMerge({ ...chosen, ...Review.deleteResolutions(deleteConflicts, deleteChoices) }, strategy)
     }
 
     return (
@@ -132,10 +173,14 @@ export function ReviewView({
                     <span style={styles.summaryCount}>{modified.length}</span>
                     <span style={styles.summaryLabel}>Modified</span>
                 </div>
+                <div style={styles.summaryItem}>
+                    <span style={styles.summaryCount}>{deleted.length + deletedFolders.length}</span>
+                    <span style={styles.summaryLabel}>Deleted</span>
+                </div>
                 {hasConflicts && (
                     <div style={styles.summaryItem}>
                         <span style={{ ...styles.summaryCount, color: "#f59e0b" }}>
-                            {resolvedCount}/{conflicts.length}
+                            {resolvedCount}/{conflictCount}
                         </span>
                         <span style={styles.summaryLabel}>Conflicts Resolved</span>
                     </div>
@@ -149,21 +194,40 @@ export function ReviewView({
             {/* Document Changes */}
             <div style={styles.changes}>
                 {/* Conflicts - Action Required */}
-                {conflicts.length > 0 && (
+                {hasConflicts && (
                     <div style={styles.section}>
                         <h3 style={styles.sectionTitle}>
                             <span style={styles.conflictBadge}>!</span> Action Required
                         </h3>
-                        {conflicts.map(({ feature, base }) => (
+                        {conflicts.map(({ feature, base, ancestor, previousPath }) => (
                             <ConflictCard
                                 key={feature.path}
                                 feature={feature}
                                 base={base}
+                                mergeBase={ancestor}
+                                previousPath={previousPath}
                                 featureBranch={featureBranch}
                                 defaultBranch={defaultBranch}
+                                store={store}
                                 resolveCid={resolveCid}
-                                resolution={resolutions[feature.path] || null}
-                                onResolve={(resolution) => handleResolve(feature.path, resolution)}
+                                hunks={conflictHunks.get(feature.path) ?? []}
+                                choices={resolutions[feature.path] ?? {}}
+                                mergedResult={mergedResults[feature.path]}
+                                onChoose={(hunk, choice) => handleChooseBlock(feature.path, hunk, choice)}
+                                onMergedResult={(result) => handleMergedResult(feature.path, result)}
+                            />
+                        ))}
+                        {deleteConflicts.map(({ path, feature, base }) => (
+                            <DeleteConflictCard
+                                key={path}
+                                path={path}
+                                feature={feature}
+                                base={base}
+                                featureBranch={featureBranch}
+                                defaultBranch={defaultBranch}
+                                resolveCid={resolveCid}
+                                choice={deleteChoices[path]}
+                                onChoose={(choice) => setDeleteChoices(prev => ({ ...prev, [path]: choice }))}
                             />
                         ))}
                     </div>
@@ -198,11 +262,16 @@ export function ReviewView({
                         <h3 style={styles.sectionTitle}>
                             <span style={styles.modifiedBadge}>~</span> Modified Documents
                         </h3>
-                        {modified.map(({ feature, base }) => (
+                        {modified.map(({ feature, base, merged, previousPath }) => (
                             <div key={feature.cid} style={styles.documentCard}>
                                 <div style={styles.documentHeader}>
-                                    <span style={styles.documentPath}>{feature.path}</span>
-                                    <span style={styles.modifiedTag}>Changed</span>
+                                    <span style={styles.documentPath}>
+                                        {feature.path}
+                                        {previousPath && <MovedFrom path={feature.path} previousPath={previousPath} />}
+                                    </span>
+                                    <span style={styles.modifiedTag}>
+                                        {merged ? `Changed · merges with ${defaultBranch.name}'s edits` : "Changed"}
+                                    </span>
                                 </div>
                                 <div style={styles.diffContainer}>
                                     <DiffSide
@@ -226,8 +295,41 @@ export function ReviewView({
                     </div>
                 )}
 
+                {/* Deleted Documents and Folders */}
+                {(deleted.length > 0 || deletedFolders.length > 0) && (
+                    <div style={styles.section}>
+                        <h3 style={styles.sectionTitle}>
+                            <span style={styles.deletedBadge}>−</span> Deleted
+                        </h3>
+                        {deletedFolders.map((path) => (
+                            <div key={path} style={styles.documentCard}>
+                                <div style={styles.documentHeader}>
+                                    <span style={styles.documentPath}>{path}</span>
+                                    <span style={styles.deletedTag}>Folder deleted</span>
+                                </div>
+                            </div>
+                        ))}
+                        {deleted.map((doc) => (
+                            <div key={doc.path} style={styles.documentCard}>
+                                <div style={styles.documentHeader}>
+                                    <span style={styles.documentPath}>{doc.path}</span>
+                                    <span style={styles.deletedTag}>Deleted</span>
+                                </div>
+                                <div style={styles.documentPreview}>
+                                    <DocumentPreview
+                                        doc={doc.doc}
+                                        resolveCid={resolveCid}
+                                        variant="removed"
+                                    />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
                 {/* Empty state */}
-                {added.length === 0 && modified.length === 0 && conflicts.length === 0 && (
+                {added.length === 0 && modified.length === 0 && deleted.length === 0
+                    && deletedFolders.length === 0 && !hasConflicts && (
                     <div style={styles.emptyState}>
                         <div style={styles.emptyIcon}>✓</div>
                         <p style={styles.emptyText}>No changes to review</p>
@@ -241,7 +343,7 @@ export function ReviewView({
                     <>
                         <div style={styles.conflictBanner}>
                             <span style={styles.conflictIcon}>⚠️</span>
-                            <span>Resolve all conflicts to merge ({resolvedCount}/{conflicts.length} resolved)</span>
+                            <span>Resolve all conflicts to merge ({resolvedCount}/{conflictCount} resolved)</span>
                         </div>
                         <button style={styles.mergeButtonDisabled} disabled>
                             Merge Changes
@@ -253,9 +355,20 @@ export function ReviewView({
                             <span style={styles.readyIcon}>✓</span>
                             <span>Ready to merge into {defaultBranch.name}</span>
                         </div>
-                        <button style={styles.mergeButton} onClick={onMerge}>
-                            Merge Changes
-                        </button>
+                        <div style={styles.mergeActions}>
+                            <select
+                                style={styles.strategySelect}
+                                value={strategy}
+                                onChange={(e) => setStrategy(e.target.value as MergeStrategy)}
+                            >
+                                <option value="merge-commit">Create a merge commit</option>
+                                <option value="fast-forward">Fast-forward if possible</option>
+                                <option value="squash">Squash into one commit</option>
+                            </select>
+                            <button style={styles.mergeButton} onClick={handleMerge}>
+                                {strategy === "squash" ? "Squash and Merge" : "Merge Changes"}
+                            </button>
+                        </div>
                     </>
                 )}
             </div>
@@ -263,277 +376,378 @@ export function ReviewView({
     )
 }
 
-// Conflict Card with resolution UI
+// "Renamed from" when the document stayed in its folder, "Moved from" otherwise
+function MovedFrom({ path, previousPath }: { path: string; previousPath: string }) {
+    const folder = (p: string) => p.slice(0, p.lastIndexOf("/") + 1)
+    return (
+        <span style={styles.movedFrom}>
+            {folder(path) === folder(previousPath) ? "Renamed" : "Moved"} from {previousPath}
+        </span>
+    )
+}
+
+// Conflict Card with block-by-block resolution UI
 function ConflictCard({
     feature,
     base,
+    mergeBase,
+    previousPath,
     featureBranch,
     defaultBranch,
+    store,
     resolveCid,
-    resolution,
-    onResolve,
+    hunks,
+    choices,
+    mergedResult,
+    onChoose,
+    onMergedResult,
 }: {
     feature: DocumentInfo
     base: DocumentInfo
+    mergeBase?: DocumentInfo
+    /** Path on the merge base, if this branch renamed or moved the document */
+    previousPath?: string
     featureBranch: Branch
     defaultBranch: Branch
+    store: Pick<ContentStore, "put" | "get">
     resolveCid: <T>(cid: CID<T>) => T | undefined
-    resolution: Resolution
-    onResolve: (resolution: Resolution) => void
+    hunks: BlockHunk[]
+    choices: BlockChoices
+    /** undefined while the merge editor is closed, null until it has a result */
+    mergedResult: Descendant[] | null | undefined
+    onChoose: (hunk: number, choice: BlockChoice) => void
+    onMergedResult: (result: Descendant[] | null | undefined) => void
 }) {
+    const showMergeEditor = mergedResult !== undefined
+    const conflictCount = hunks.filter(hunk => hunk.kind === "conflict").length
+    const chosenCount = hunks.filter((hunk, i) => hunk.kind === "conflict" && choices[i] !== undefined).length
+    const resolved = showMergeEditor ? mergedResult !== null : chosenCount === conflictCount
+
+    // Pick the same side for every conflicting block at once
+    const chooseAll = (choice: "ours" | "theirs") => {
+        hunks.forEach((hunk, i) => {
+            if (hunk.kind === "conflict") onChoose(i, choice)
+        })
+    }
+
     return (
         <div style={{
             ...styles.documentCard,
-            borderColor: resolution ? "var(--success)" : "#f59e0b",
+            borderColor: resolved ? "var(--success)" : "#f59e0b",
             borderWidth: 2,
         }}>
             <div style={{
                 ...styles.documentHeader,
-                background: resolution ? "rgba(34, 197, 94, 0.1)" : "rgba(245, 158, 11, 0.1)",
+                background: resolved ? "rgba(34, 197, 94, 0.1)" : "rgba(245, 158, 11, 0.1)",
             }}>
-                <span style={styles.documentPath}>{feature.path}</span>
-                {resolution ? (
-                    <span style={styles.resolvedTag}>
-                        ✓ Using {resolution === "ours" ? "your" : "their"} version
-                    </span>
-                ) : (
-                    <span style={styles.conflictTag}>Choose a version</span>
-                )}
-            </div>
-            <div style={styles.diffContainer}>
-                <div
-                    style={{
-                        ...styles.diffSide,
-                        cursor: "pointer",
-                        background: resolution === "theirs" ? "rgba(34, 197, 94, 0.1)" : undefined,
-                        borderRadius: 0,
-                    }}
-                    onClick={() => onResolve("theirs")}
-                >
-                    <div style={styles.diffHeader}>
-                        <span style={styles.diffLabel}>Their Version</span>
-                        <span style={styles.diffBranch}>{defaultBranch.name}</span>
-                    </div>
-                    <div style={styles.diffContent}>
-                        <DocumentPreview
-                            doc={base.doc}
-                            resolveCid={resolveCid}
-                            variant={resolution === "theirs" ? "selected" : undefined}
-                        />
-                    </div>
-                    <div style={styles.chooseButtonContainer}>
-                        <button
-                            style={resolution === "theirs" ? styles.chooseButtonSelected : styles.chooseButton}
-                            onClick={(e) => {
-                                e.stopPropagation()
-                                onResolve("theirs")
-                            }}
-                        >
-                            {resolution === "theirs" ? "✓ Selected" : "Use This Version"}
-                        </button>
-                    </div>
-                </div>
-                <div style={styles.diffDivider}>
-                    <div style={styles.vsLabel}>VS</div>
+                <span style={styles.documentPath}>
+                    {feature.path}
+                    {previousPath && <MovedFrom path={feature.path} previousPath={previousPath} />}
+                </span>
+                <div style={styles.conflictHeaderRight}>
+                    {resolved ? (
+                        <span style={styles.resolvedTag}>
+                            ✓ {showMergeEditor ? "Using the merged result" : conflictCount === 0 ? "Merges cleanly" : "Resolved"}
+                        </span>
+                    ) : (
+                        <span style={styles.conflictTag}>
+                            {showMergeEditor ? "Accept every hunk" : `${chosenCount}/${conflictCount} blocks resolved`}
+                        </span>
+                    )}
+                    {!showMergeEditor && conflictCount > 0 && (
+                        <>
+                            <button style={styles.mergeEditorToggle} onClick={() => chooseAll("theirs")}>
+                                All theirs
+                            </button>
+                            <button style={styles.mergeEditorToggle} onClick={() => chooseAll("ours")}>
+                                All yours
+                            </button>
+                        </>
+                    )}
+                    <button
+                        style={styles.mergeEditorToggle}
+                        onClick={() => onMergedResult(showMergeEditor ? undefined : null)}
+                    >
+                        {showMergeEditor ? "Resolve block by block" : "Open merge editor"}
+                    </button>
                 </div>
-                <div
-                    style={{
-                        ...styles.diffSide,
-                        cursor: "pointer",
-                        background: resolution === "ours" ? "rgba(34, 197, 94, 0.1)" : undefined,
-                        borderRadius: 0,
-                    }}
-                    onClick={() => onResolve("ours")}
-                >
-                    <div style={styles.diffHeader}>
-                        <span style={styles.diffLabel}>Your Version</span>
-                        <span style={styles.diffBranch}>{featureBranch.name}</span>
-                    </div>
-                    <div style={styles.diffContent}>
-                        <DocumentPreview
-                            doc={feature.doc}
+            </div>
+            {showMergeEditor ? (
+                <MergeEditor
+                    base={mergeBase?.doc}
+                    ours={feature.doc}
+                    theirs={base.doc}
+                    oursLabel={featureBranch.name}
+                    theirsLabel={defaultBranch.name}
+                    store={store}
+                    resolveCid={resolveCid}
+                    onResult={onMergedResult}
+                />
+            ) : (
+                <div style={styles.hunkList}>
+                    {hunks.map((hunk, i) => hunk.kind === "conflict" ? (
+                        <ConflictHunk
+                            key={i}
+                            hunk={hunk}
+                            choice={choices[i]}
+                            featureBranch={featureBranch}
+                            defaultBranch={defaultBranch}
+                            store={store}
                             resolveCid={resolveCid}
-                            variant={resolution === "ours" ? "selected" : undefined}
+                            onChoose={(choice) => onChoose(i, choice)}
                         />
-                    </div>
-                    <div style={styles.chooseButtonContainer}>
-                        <button
-                            style={resolution === "ours" ? styles.chooseButtonSelected : styles.chooseButton}
-                            onClick={(e) => {
-                                e.stopPropagation()
-                                onResolve("ours")
-                            }}
-                        >
-                            {resolution === "ours" ? "✓ Selected" : "Use This Version"}
-                        </button>
-                    </div>
+                    ) : (
+                        <div key={i} style={styles.hunkContext}>
+                            {(hunk.merged ?? []).map((blockCid, j) => (
+                                <BlockPreview key={j} blockCid={blockCid} resolveCid={resolveCid} />
+                            ))}
+                        </div>
+                    ))}
                 </div>
-            </div>
+            )}
         </div>
     )
 }
 
-// Diff Side Component
-function DiffSide({
-    label,
-    branchName,
-    doc,
+// A document one side deleted and the other edited
+function DeleteConflictCard({
+    path,
+    feature,
+    base,
+    featureBranch,
+    defaultBranch,
     resolveCid,
-    variant,
+    choice,
+    onChoose,
 }: {
-    label: string
-    branchName: string
-    doc: Document & { name?: string }
+    path: string
+    feature?: DocumentInfo
+    base?: DocumentInfo
+    featureBranch: Branch
+    defaultBranch: Branch
     resolveCid: <T>(cid: CID<T>) => T | undefined
-    variant?: "added" | "removed"
+    choice: DeleteChoice | undefined
+    onChoose: (choice: DeleteChoice) => void
 }) {
+    const edited = (feature ?? base)!
+    const deletedOn = feature ? defaultBranch.name : featureBranch.name
+    const editedOn = feature ? featureBranch.name : defaultBranch.name
+
+    const optionStyle = (selected: boolean) => ({
+        ...(selected ? styles.chooseButtonSelected : styles.chooseButton),
+        width: "auto",
+    })
+
     return (
-        <div style={styles.diffSide}>
-            <div style={styles.diffHeader}>
-                <span style={styles.diffLabel}>{label}</span>
-                <span style={styles.diffBranch}>{branchName}</span>
+        <div style={{
+            ...styles.documentCard,
+            borderColor: choice ? "var(--success)" : "#f59e0b",
+            borderWidth: 2,
+        }}>
+            <div style={{
+                ...styles.documentHeader,
+                background: choice ? "rgba(34, 197, 94, 0.1)" : "rgba(245, 158, 11, 0.1)",
+            }}>
+                <span style={styles.documentPath}>{path}</span>
+                {choice ? (
+                    <span style={styles.resolvedTag}>
+                        ✓ {choice === "delete" ? "Deleting it" : "Keeping the edited version"}
+                    </span>
+                ) : (
+                    <span style={styles.conflictTag}>Deleted on {deletedOn}, edited on {editedOn}</span>
+                )}
             </div>
-            <div style={styles.diffContent}>
-                <DocumentPreview doc={doc} resolveCid={resolveCid} variant={variant} />
+            <DiffSide
+                label="Edited Version"
+                branchName={editedOn}
+                doc={edited.doc}
+                resolveCid={resolveCid}
+            />
+            <div style={styles.hunkActions}>
+                <button style={optionStyle(choice === "delete")} onClick={() => onChoose("delete")}>
+                    Delete It
+                </button>
+                <button style={optionStyle(choice === "keep")} onClick={() => onChoose("keep")}>
+                    Keep Edited Version
+                </button>
             </div>
         </div>
     )
 }
 
-// Document Preview Component
-function DocumentPreview({
-    doc,
+// One conflicting block pair with its choices
+function ConflictHunk({
+    hunk,
+    choice,
+    featureBranch,
+    defaultBranch,
+    store,
     resolveCid,
-    variant,
+    onChoose,
 }: {
-    doc: Document & { name?: string }
+    hunk: BlockHunk
+    choice: BlockChoice | undefined
+    featureBranch: Branch
+    defaultBranch: Branch
+    store: Pick<ContentStore, "put" | "get">
     resolveCid: <T>(cid: CID<T>) => T | undefined
-    variant?: "added" | "removed" | "selected"
+    onChoose: (choice: BlockChoice) => void
 }) {
-    if (doc.content.length === 0) {
-        return <div style={styles.emptyDoc}>Empty document</div>
+    // Slate value while hand-editing, starting from both sides
+    const [editing, setEditing] = useState<Descendant[] | null>(null)
+    const edited = typeof choice === "object" ? choice.edited : null
+
+    const startEditing = () => {
+        const value = edited ?? blocksToSlate([...hunk.ours, ...hunk.theirs], store.get)
+        setEditing(value.length > 0 ? value : [{ type: "paragraph", children: [{ text: "" }] }])
+    }
+
+    const finishEditing = () => {
+        if (!editing) return
+        onChoose({ edited: editing })
+        setEditing(null)
     }
 
-    const contentStyle = variant === "added" 
-        ? styles.addedContent 
-        : variant === "removed" 
-        ? styles.removedContent 
-        : variant === "selected"
-        ? styles.selectedContent
-        : {}
+    const optionStyle = (selected: boolean) => ({
+        ...(selected ? styles.chooseButtonSelected : styles.chooseButton),
+        width: "auto",
+    })
 
     return (
-        <div style={contentStyle}>
-            {doc.content.map((blockCid, i) => (
-                <BlockPreview
-                    key={`${blockCid}-${i}`}
-                    blockCid={blockCid}
+        <div style={styles.conflictHunk}>
+            <div style={styles.diffContainer}>
+                <HunkSide
+                    label="Their Version"
+                    branchName={defaultBranch.name}
+                    blocks={hunk.theirs}
+                    selected={choice === "theirs" || choice === "both"}
+                    resolveCid={resolveCid}
+                />
+                <div style={styles.diffDivider} />
+                <HunkSide
+                    label="Your Version"
+                    branchName={featureBranch.name}
+                    blocks={hunk.ours}
+                    selected={choice === "ours" || choice === "both"}
                     resolveCid={resolveCid}
                 />
-            ))}
+            </div>
+            {editing ? (
+                <div style={styles.hunkEditor}>
+                    <DocumentEditor value={editing} onChange={setEditing} />
+                    <div style={styles.hunkActions}>
+                        <button style={optionStyle(false)} onClick={() => setEditing(null)}>
+                            Cancel
+                        </button>
+                        <button style={optionStyle(true)} onClick={finishEditing}>
+                            Use Edited Blocks
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    {edited && (
+                        <div style={styles.hunkEdited}>
+                            <div style={styles.diffLabel}>Edited</div>
+                            <DocumentEditor value={edited} onChange={() => {}} readOnly />
+                        </div>
+                    )}
+                    <div style={styles.hunkActions}>
+                        <button style={optionStyle(choice === "theirs")} onClick={() => onChoose("theirs")}>
+                            Use Theirs
+                        </button>
+                        <button style={optionStyle(choice === "ours")} onClick={() => onChoose("ours")}>
+                            Use Yours
+                        </button>
+                        <button style={optionStyle(choice === "both")} onClick={() => onChoose("both")}>
+                            Both (Yours First)
+                        </button>
+                        <button style={optionStyle(edited !== null)} onClick={startEditing}>
+                            {edited ? "Edit Again" : "Edit by Hand"}
+                        </button>
+                    </div>
+                </>
+            )}
         </div>
     )
 }
 
-function BlockPreview({
-    blockCid,
+function HunkSide({
+    label,
+    branchName,
+    blocks,
+    selected,
     resolveCid,
 }: {
-    blockCid: CID<BlockNode>
+    label: string
+    branchName: string
+    blocks: CID<BlockNode>[]
+    selected: boolean
     resolveCid: <T>(cid: CID<T>) => T | undefined
 }) {
-    const block = resolveCid(blockCid) as BlockNode | undefined
-    if (!block) return null
-
-    switch (block.type) {
-        case "heading":
-            return (
-                <div style={{ ...styles.blockHeading, fontSize: 20 - (block.level - 1) * 2 }}>
-                    <InlinePreview inlineCids={block.content} resolveCid={resolveCid} />
-                </div>
-            )
-        case "paragraph":
-            return (
-                <p style={styles.blockParagraph}>
-                    <InlinePreview inlineCids={block.content} resolveCid={resolveCid} />
-                </p>
-            )
-        case "code_block":
-            return <pre style={styles.blockCode}>{block.value}</pre>
-        case "list": {
-            const ListTag = block.ordered ? "ol" : "ul"
-            return (
-                <ListTag style={styles.blockList}>
-                    {block.items.map((itemCid, i) => {
-                        const item = resolveCid(itemCid)
-                        if (!item) return null
-                        return (
-                            <li key={i}>
-                                {item.content.map((bc, j) => (
-                                    <BlockPreview key={j} blockCid={bc} resolveCid={resolveCid} />
-                                ))}
-                            </li>
-                        )
-                    })}
-                </ListTag>
-            )
-        }
-        case "blockquote":
-            return (
-                <blockquote style={styles.blockQuote}>
-                    {block.content.map((bc, i) => (
-                        <BlockPreview key={i} blockCid={bc} resolveCid={resolveCid} />
-                    ))}
-                </blockquote>
-            )
-        case "horizontal_rule":
-            return <hr style={styles.blockHr} />
-        default:
-            return null
-    }
+    return (
+        <div style={{
+            ...styles.diffSide,
+            background: selected ? "rgba(34, 197, 94, 0.1)" : undefined,
+        }}>
+            <div style={styles.diffHeader}>
+                <span style={styles.diffLabel}>{label}</span>
+                <span style={styles.diffBranch}>{branchName}</span>
+            </div>
+            <div style={styles.diffContent}>
+                {blocks.length === 0 ? (
+                    <div style={styles.hunkRemoved}>(removed)</div>
+                ) : blocks.map((blockCid, i) => (
+                    <BlockPreview key={i} blockCid={blockCid} resolveCid={resolveCid} />
+                ))}
+            </div>
+        </div>
+    )
+}
+
+// The document a set of block choices resolves to, stored at merge time for
+// the merge to commit
+function buildDocument(
+    doc: Document,
+    hunks: BlockHunk[],
+    choices: BlockChoices,
+    store: Pick<ContentStore, "put" | "get">
+): CID<Document> {
+    const content = hunks.flatMap((hunk, i) => hunk.merged ?? chosenBlocks(hunk, choices[i], store))
+    return store.put<Document>({ ...doc, content })
+}
+
+function chosenBlocks(hunk: BlockHunk, choice: BlockChoice, store: Pick<ContentStore, "put" | "get">): CID<BlockNode>[] {
+    if (choice === "ours") return hunk.ours
+    if (choice === "theirs") return hunk.theirs
+    if (choice === "both") return [...hunk.ours, ...hunk.theirs]
+    return slateToDocument(choice.edited, store).document.content
 }
 
-function InlinePreview({
-    inlineCids,
+// Diff Side Component
+function DiffSide({
+    label,
+    branchName,
+    doc,
     resolveCid,
+    variant,
 }: {
-    inlineCids: CID<InlineNode>[]
+    label: string
+    branchName: string
+    doc: Document & { name?: string }
     resolveCid: <T>(cid: CID<T>) => T | undefined
+    variant?: "added" | "removed"
 }) {
     return (
-        <>
-            {inlineCids.map((cid, i) => {
-                const inline = resolveCid(cid) as InlineNode | undefined
-                if (!inline) return null
-
-                switch (inline.type) {
-                    case "text":
-                        return <span key={i}>{inline.value}</span>
-                    case "strong":
-                        return (
-                            <strong key={i}>
-                                <InlinePreview inlineCids={inline.content} resolveCid={resolveCid} />
-                            </strong>
-                        )
-                    case "emphasis":
-                        return (
-                            <em key={i}>
-                                <InlinePreview inlineCids={inline.content} resolveCid={resolveCid} />
-                            </em>
-                        )
-                    case "code_span":
-                        return <code key={i} style={styles.inlineCode}>{inline.value}</code>
-                    case "link":
-                        return (
-                            <a key={i} href={inline.href} style={styles.inlineLink}>
-                                <InlinePreview inlineCids={inline.content} resolveCid={resolveCid} />
-                            </a>
-                        )
-                    default:
-                        return null
-                }
-            })}
-        </>
+        <div style={styles.diffSide}>
+            <div style={styles.diffHeader}>
+                <span style={styles.diffLabel}>{label}</span>
+                <span style={styles.diffBranch}>{branchName}</span>
+            </div>
+            <div style={styles.diffContent}>
+                <DocumentPreview doc={doc} resolveCid={resolveCid} variant={variant} />
+            </div>
+        </div>
     )
 }
 
@@ -656,6 +870,17 @@ const styles: Record<string, React.CSSProperties> = {
         borderRadius: 4,
         fontWeight: 700,
     },
+    deletedBadge: {
+        width: 20,
+        height: 20,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        background: "rgba(239, 68, 68, 0.2)",
+        color: "#ef4444",
+        borderRadius: 4,
+        fontWeight: 700,
+    },
     conflictBadge: {
         width: 20,
         height: 20,
@@ -689,6 +914,12 @@ const styles: Record<string, React.CSSProperties> = {
         fontSize: 13,
         color: "var(--text-primary)",
     },
+    movedFrom: {
+        marginLeft: 8,
+        fontFamily: "var(--font-sans)",
+        fontSize: 11,
+        color: "var(--text-secondary)",
+    },
     addedTag: {
         padding: "2px 8px",
         background: "rgba(34, 197, 94, 0.2)",
@@ -707,6 +938,15 @@ const styles: Record<string, React.CSSProperties> = {
         fontWeight: 600,
         textTransform: "uppercase",
     },
+    deletedTag: {
+        padding: "2px 8px",
+        background: "rgba(239, 68, 68, 0.2)",
+        color: "#ef4444",
+        borderRadius: 4,
+        fontSize: 11,
+        fontWeight: 600,
+        textTransform: "uppercase",
+    },
     conflictTag: {
         padding: "4px 12px",
         background: "rgba(245, 158, 11, 0.2)",
@@ -716,6 +956,56 @@ const styles: Record<string, React.CSSProperties> = {
         fontWeight: 600,
         textTransform: "uppercase",
     },
+    conflictHeaderRight: {
+        display: "flex",
+        alignItems: "center",
+        gap: 8,
+    },
+    hunkList: {
+        display: "flex",
+        flexDirection: "column",
+        gap: 8,
+        padding: 12,
+    },
+    hunkContext: {
+        opacity: 0.6,
+        padding: "0 4px",
+    },
+    conflictHunk: {
+        border: "1px solid #f59e0b",
+        borderRadius: 6,
+        overflow: "hidden",
+    },
+    hunkActions: {
+        display: "flex",
+        justifyContent: "flex-end",
+        gap: 8,
+        padding: "8px 12px",
+        borderTop: "1px solid var(--bg-tertiary)",
+    },
+    hunkEditor: {
+        borderTop: "1px solid var(--bg-tertiary)",
+        background: "var(--bg-primary)",
+    },
+    hunkEdited: {
+        padding: "8px 16px",
+        borderTop: "1px solid var(--bg-tertiary)",
+        background: "rgba(34, 197, 94, 0.1)",
+    },
+    hunkRemoved: {
+        color: "var(--text-secondary)",
+        fontStyle: "italic",
+        fontSize: 13,
+    },
+    mergeEditorToggle: {
+        background: "transparent",
+        border: "1px solid var(--accent)",
+        borderRadius: 4,
+        padding: "2px 8px",
+        color: "var(--accent)",
+        fontSize: 11,
+        cursor: "pointer",
+    },
     resolvedTag: {
         padding: "4px 12px",
         background: "rgba(34, 197, 94, 0.2)",
@@ -766,19 +1056,6 @@ const styles: Record<string, React.CSSProperties> = {
         justifyContent: "center",
         position: "relative",
     },
-    vsLabel: {
-        position: "absolute",
-        background: "var(--bg-tertiary)",
-        padding: "4px 8px",
-        borderRadius: 4,
-        fontSize: 10,
-        fontWeight: 700,
-        color: "var(--text-secondary)",
-    },
-    chooseButtonContainer: {
-        padding: "12px 16px",
-        borderTop: "1px solid var(--bg-tertiary)",
-    },
     chooseButton: {
         width: "100%",
         padding: "8px 16px",
@@ -803,24 +1080,6 @@ const styles: Record<string, React.CSSProperties> = {
         fontWeight: 600,
         cursor: "pointer",
     },
-    addedContent: {
-        background: "rgba(34, 197, 94, 0.05)",
-        borderRadius: 4,
-        padding: 8,
-    },
-    removedContent: {
-        background: "rgba(239, 68, 68, 0.05)",
-        borderRadius: 4,
-        padding: 8,
-    },
-    selectedContent: {
-        background: "rgba(34, 197, 94, 0.1)",
-        borderRadius: 4,
-        padding: 8,
-        borderWidth: 2,
-        borderStyle: "solid",
-        borderColor: "var(--success)",
-    },
     emptyState: {
         display: "flex",
         flexDirection: "column",
@@ -838,11 +1097,6 @@ const styles: Record<string, React.CSSProperties> = {
         fontSize: 14,
         margin: 0,
     },
-    emptyDoc: {
-        color: "var(--text-secondary)",
-        fontStyle: "italic",
-        fontSize: 13,
-    },
     footer: {
         padding: "16px 24px",
         borderTop: "1px solid var(--bg-tertiary)",
@@ -871,6 +1125,19 @@ const styles: Record<string, React.CSSProperties> = {
     readyIcon: {
         fontSize: 18,
     },
+    mergeActions: {
+        display: "flex",
+        alignItems: "center",
+        gap: 8,
+    },
+    strategySelect: {
+        background: "var(--bg-tertiary)",
+        border: "1px solid var(--bg-tertiary)",
+        borderRadius: 6,
+        padding: "9px 10px",
+        color: "var(--text-primary)",
+        fontSize: 13,
+    },
     mergeButton: {
         background: "var(--success)",
         border: "none",
@@ -891,52 +1158,4 @@ const styles: Record<string, React.CSSProperties> = {
         fontWeight: 600,
         cursor: "not-allowed",
     },
-    // Block styles
-    blockHeading: {
-        fontWeight: 600,
-        marginBottom: 8,
-        color: "var(--text-primary)",
-    },
-    blockParagraph: {
-        margin: "0 0 8px 0",
-        lineHeight: 1.6,
-        color: "var(--text-primary)",
-        fontSize: 14,
-    },
-    blockCode: {
-        background: "var(--bg-primary)",
-        padding: 12,
-        borderRadius: 4,
-        fontFamily: "var(--font-mono)",
-        fontSize: 12,
-        margin: "0 0 8px 0",
-        overflow: "auto",
-    },
-    blockList: {
-        margin: "0 0 8px 0",
-        paddingLeft: 20,
-    },
-    blockQuote: {
-        margin: "0 0 8px 0",
-        paddingLeft: 12,
-        borderLeft: "3px solid var(--accent)",
-        color: "var(--text-secondary)",
-        fontStyle: "italic",
-    },
-    blockHr: {
-        border: "none",
-        borderTop: "1px solid var(--bg-tertiary)",
-        margin: "16px 0",
-    },
-    inlineCode: {
-        background: "var(--bg-tertiary)",
-        padding: "2px 4px",
-        borderRadius: 3,
-        fontFamily: "var(--font-mono)",
-        fontSize: "0.9em",
-    },
-    inlineLink: {
-        color: "var(--accent)",
-        textDecoration: "underline",
-    },
 }
@@ -3,12 +3,16 @@ import { Branch } from "../../version_control/mutable/branch"
 import { CommitNode } from "../../version_control/HistoryView"
 import { CID } from "../../version_control/cid"
 import { Commit } from "../../version_control/immutable/commit"
+import { Tag } from "../../version_control/immutable/tag"
+import { TrackingStatus } from "../../version_control/remote/Remote"
 
 type VersionControlPanelProps = {
     currentBranch: Branch
     branches: Branch[]
     defaultBranchName: string
     isDirty: boolean
+    /** Working state still holds conflict blocks from a merge */
+    hasConflictBlocks: boolean
     commitHistory: CommitNode[]
     onBranchNameChange: (name: string) => void
     onSwitchBranch: (branch: Branch) => void
@@ -17,12 +21,47 @@ type VersionControlPanelProps = {
     onCommit: (message: string) => void
     onMergeInto: (sourceBranch: Branch, targetBranch: Branch) => void
     onViewCommit: (cid: CID<Commit>) => void
+    /** Apply one commit's changes on top of the current branch */
+    onCherryPick: (cid: CID<Commit>) => void
+    /** Undo a commit with a new commit; mainline picks the parent kept when reverting a merge */
+    onRevert: (cid: CID<Commit>, mainline?: number) => void
+    /** A rebase is paused on conflicts */
+    rebaseInProgress: boolean
+    /** The current branch's last rebase can still be undone */
+    canUndoRebase: boolean
+    /** Rebase the current branch onto default, or continue a paused rebase */
+    onRebase: () => void
+    onAbortRebase: () => void
+    onUndoRebase: () => void
+    tags: { cid: CID<Tag>, tag: Tag }[]
+    onCreateTag: (name: string, message: string, commitCid: CID<Commit>) => void
+    onDeleteTag: (name: string) => void
+    /** Open the tagged snapshot read-only */
+    onOpenTag: (name: string) => void
+    remoteName: string
+    remoteBranches: Branch[]
+    /** Tracking status of each local branch, by uuid */
+    trackingStatus: Record<string, TrackingStatus>
+    onFetch: () => Promise<void>
+    onPull: () => Promise<void>
+    onPush: () => Promise<void>
 }
 
 // Layout constants - git-graph style (vertical, oldest at top)
 const ROW_HEIGHT = 22
 const LANE_WIDTH = 14
 const LEFT_PAD = 8
+const TAG_COLOR = "#eab308"
+
+/**
+ * Short ahead/behind label, e.g. "↑3 ↓2"
+ */
+function formatAheadBehind(status: TrackingStatus): string {
+    const parts: string[] = []
+    if (status.ahead > 0) parts.push(`↑${status.ahead}`)
+    if (status.behind > 0) parts.push(`↓${status.behind}`)
+    return parts.join(" ")
+}
 
 // Branch colors - vibrant, distinct
 const COLORS = ["#22c55e", "#a855f7", "#f59e0b", "#ec4899", "#06b6d4", "#f97316", "#84cc16", "#8b5cf6"]
@@ -292,8 +331,11 @@ function renderGraphCell(
 }
 
 export function VersionControlPanel({
-    currentBranch, branches, defaultBranchName, isDirty, commitHistory,
-    onBranchNameChange, onSwitchBranch, onCreateBranch, onCreateBranchFromCommit, onCommit, onMergeInto, onViewCommit
+    currentBranch, branches, defaultBranchName, isDirty, hasConflictBlocks, commitHistory,
+    onBranchNameChange, onSwitchBranch, onCreateBranch, onCreateBranchFromCommit, onCommit, onMergeInto, onViewCommit, onCherryPick, onRevert,
+    rebaseInProgress, canUndoRebase, onRebase, onAbortRebase, onUndoRebase,
+    tags, onCreateTag, onDeleteTag, onOpenTag,
+    remoteName, remoteBranches, trackingStatus, onFetch, onPull, onPush
 }: VersionControlPanelProps) {
     const [branchPopup, setBranchPopup] = useState(false)
     const [commitPopup, setCommitPopup] = useState(false)
@@ -301,6 +343,15 @@ export function VersionControlPanel({
     const [newName, setNewName] = useState("")
     const [msg, setMsg] = useState("")
     const [selectedCid, setSelectedCid] = useState<string | null>(null)
+    const [syncing, setSyncing] = useState(false)
+    const [syncError, setSyncError] = useState<string | null>(null)
+    // Commit actions opened by right-clicking a commit, at the pointer
+    const [commitMenu, setCommitMenu] = useState<{ node: LayoutNode, x: number, y: number } | null>(null)
+    // Commit being tagged from the commit menu
+    const [tagPopup, setTagPopup] = useState<CID<Commit> | null>(null)
+    const [tagName, setTagName] = useState("")
+    const [tagMessage, setTagMessage] = useState("")
+    const [tagError, setTagError] = useState<string | null>(null)
 
     const layout = useMemo(() => 
         buildGitGraphLayout(commitHistory, branches, currentBranch.uuid),
@@ -318,6 +369,22 @@ export function VersionControlPanel({
     const selectedNode = selectedCid ? layout.nodes.find(n => n.cid === selectedCid) : null
     const isAtBranchHead = !selectedCid || (selectedNode && selectedNode.branches.some(b => b.uuid === currentBranch.uuid))
     const isViewingHistory = selectedCid && !isAtBranchHead
+    const currentStatus = trackingStatus[currentBranch.uuid]
+    // Tags whose commit has dropped out of the graph, e.g. after a rebase
+    const offGraphTags = tags.filter(t => !layout.nodes.some(n => n.cid === t.tag.target))
+
+    // Run a remote operation, keeping its error on screen until the next one
+    const runSync = useCallback(async (operation: () => Promise<void>) => {
+        setSyncing(true)
+        setSyncError(null)
+        try {
+            await operation()
+        } catch (error) {
+            setSyncError(error instanceof Error ? error.message : String(error))
+        } finally {
+            setSyncing(false)
+        }
+    }, [])
 
     const doCommit = useCallback(() => {
         if (msg.trim()) {
@@ -342,8 +409,35 @@ export function VersionControlPanel({
         }
     }, [newName, selectedCid, onCreateBranch, onCreateBranchFromCommit])
 
+    // Select the tagged commit so the graph shows it as history while it is open
+    const openTag = useCallback((tag: Tag) => {
+        setSelectedCid(tag.target)
+        onOpenTag(tag.name)
+    }, [onOpenTag])
+
+    // Tag names are unique; the button and Enter both go through this check
+    const tagNameTaken = tags.some(t => t.tag.name === tagName.trim())
+    const canTag = tagName.trim() !== "" && !tagNameTaken
+
+    const doTag = useCallback(() => {
+        if (!tagPopup || !canTag) return
+        try {
+            onCreateTag(tagName.trim(), tagMessage.trim(), tagPopup)
+        } catch (error) {
+            setTagError(error instanceof Error ? error.message : String(error))
+            return
+        }
+        setTagName("")
+        setTagMessage("")
+        setTagError(null)
+        setTagPopup(null)
+    }, [tagPopup, canTag, tagName, tagMessage, onCreateTag])
+
     const handleBranchClick = useCallback((branch: Branch) => {
+        // The paused rebase holds the current branch until it is continued or aborted
+        if (rebaseInProgress) return
         if (selectingMergeTarget && branch.uuid !== currentBranch.uuid) {
+            if (hasConflictBlocks && branch.name === defaultBranchName) return
             onMergeInto(currentBranch, branch)
             setSelectingMergeTarget(false)
         } else if (!selectingMergeTarget) {
@@ -355,7 +449,7 @@ export function VersionControlPanel({
                 setSelectedCid(branchHead.cid)
             }
         }
-    }, [selectingMergeTarget, currentBranch, onMergeInto, onSwitchBranch, commitHistory])
+    }, [rebaseInProgress, selectingMergeTarget, currentBranch, hasConflictBlocks, defaultBranchName, onMergeInto, onSwitchBranch, commitHistory])
 
     // Format timestamp
     const formatTime = (ts: string) => {
@@ -379,49 +473,137 @@ export function VersionControlPanel({
                         const lane = layout.branchLanes.get(b.uuid) ?? 0
                         const color = COLORS[lane % COLORS.length]
                         const isCurrent = b.uuid === currentBranch.uuid
+                        // Conflict blocks must be resolved before anything lands on default
                         const isHighlighted = selectingMergeTarget && !isCurrent
+                            && !(hasConflictBlocks && b.name === defaultBranchName)
+                        const status = trackingStatus[b.uuid]
                         
                         return (
-                            <button
-                                key={b.uuid}
-                                onClick={() => handleBranchClick(b)}
-                                style={{
-                                    ...styles.branchTab,
-                                    background: isCurrent ? color : "transparent",
-                                    color: isCurrent ? "white" : (isHighlighted ? color : "#888"),
-                                    borderColor: isHighlighted ? color : "transparent",
-                                    fontWeight: isCurrent ? 600 : 400,
-                                }}
-                            >
-                                <span style={{ 
-                                    width: 8, 
-                                    height: 8, 
-                                    borderRadius: "50%", 
-                                    background: color,
-                                    marginRight: 6,
-                                    opacity: isCurrent ? 1 : 0.5
-                                }} />
-                                {b.name}
-                                {isHighlighted && " ←"}
-                            </button>
+                            <div key={b.uuid} style={styles.branchGroup}>
+                                <button
+                                    onClick={() => handleBranchClick(b)}
+                                    style={{
+                                        ...styles.branchTab,
+                                        background: isCurrent ? color : "transparent",
+                                        color: isCurrent ? "white" : (isHighlighted ? color : "#888"),
+                                        borderColor: isHighlighted ? color : "transparent",
+                                        fontWeight: isCurrent ? 600 : 400,
+                                    }}
+                                >
+                                    <span style={{ 
+                                        width: 8, 
+                                        height: 8, 
+                                        borderRadius: "50%", 
+                                        background: color,
+                                        marginRight: 6,
+                                        opacity: isCurrent ? 1 : 0.5
+                                    }} />
+                                    {b.name}
+                                    {isHighlighted && " ←"}
+                                </button>
+                                {status?.remoteBranch && (
+                                    <span
+                                        style={{
+                                            ...styles.remoteTab,
+                                            color: status.state === "diverged" ? "#ef4444" : "#888",
+                                        }}
+                                        title={`${status.ahead} ahead, ${status.behind} behind ${remoteName}/${status.remoteBranch.name}`}
+                                    >
+                                        {remoteName}/{status.remoteBranch.name}
+                                        {formatAheadBehind(status) && (
+                                            <span style={styles.aheadBehind}>{formatAheadBehind(status)}</span>
+                                        )}
+                                    </span>
+                                )}
+                            </div>
                         )
                     })}
             </div>
 
                 <div style={styles.actions}>
                     {isDirty && <span style={styles.dirtyIndicator}>● unsaved</span>}
+                    {hasConflictBlocks && (
+                        <span style={styles.conflictIndicator}>
+                            ● conflicts{isDefault ? " – resolve to commit" : ""}
+                        </span>
+                    )}
                     {isViewingHistory && <span style={styles.historyIndicator}>viewing history</span>}
+                    {rebaseInProgress && <span style={styles.rebaseIndicator}>● rebase paused on conflicts</span>}
+                    {currentStatus?.state === "diverged" && (
+                        <span style={styles.divergedIndicator}>
+                            diverged from {remoteName}/{currentStatus.remoteBranch!.name}; merge to continue
+                        </span>
+                    )}
+                    {syncError && (
+                        <span style={styles.syncError} title={syncError} onClick={() => setSyncError(null)}>
+                            {syncError}
+                        </span>
+                    )}
+
+                    <button
+                        style={{ ...styles.actionBtn, ...styles.syncBtn }}
+                        onClick={() => runSync(onFetch)}
+                        disabled={syncing}
+                    >
+                        Fetch
+                    </button>
+                    <button
+                        style={{ ...styles.actionBtn, ...styles.syncBtn }}
+                        onClick={() => runSync(onPull)}
+                        disabled={syncing || rebaseInProgress || isDirty || currentStatus?.state !== "behind"}
+                    >
+                        Pull
+                    </button>
+                    <button
+                        style={{ ...styles.actionBtn, ...styles.syncBtn }}
+                        onClick={() => runSync(onPush)}
+                        disabled={syncing || (currentStatus?.state !== "ahead" && currentStatus?.state !== "untracked")}
+                    >
+                        Push
+                    </button>
                     
-                    {isDirty && !isViewingHistory && (
-                        <button style={{ ...styles.actionBtn, background: currentColor }} onClick={() => setCommitPopup(true)}>
+                    {isDirty && !isViewingHistory && !(isDefault && hasConflictBlocks) && (
+                        <button
+                            style={{ ...styles.actionBtn, background: currentColor }}
+                            onClick={() => setCommitPopup(true)}
+                            disabled={rebaseInProgress}
+                        >
                             Commit
                         </button>
                     )}
                     
-                    <button style={{ ...styles.actionBtn, background: "#a855f7" }} onClick={() => setBranchPopup(true)}>
+                    <button
+                        style={{ ...styles.actionBtn, background: "#a855f7" }}
+                        onClick={() => setBranchPopup(true)}
+                        disabled={rebaseInProgress}
+                    >
                         Branch{selectedCid ? " from here" : ""}
                     </button>
                     
+                    {rebaseInProgress ? (
+                        <>
+                            <button style={{ ...styles.actionBtn, background: "#06b6d4" }} onClick={() => onRebase()}>
+                                Continue rebase
+                            </button>
+                            <button style={{ ...styles.actionBtn, ...styles.syncBtn }} onClick={onAbortRebase}>
+                                Abort
+                            </button>
+                        </>
+                    ) : !isDefault && !isViewingHistory && !isDirty && (
+                        <button
+                            style={{ ...styles.actionBtn, background: "#06b6d4" }}
+                            onClick={() => onRebase()}
+                            title={`Replay ${currentBranch.name}'s commits on top of ${defaultBranchName}`}
+                        >
+                            Rebase
+                        </button>
+                    )}
+                    {canUndoRebase && !rebaseInProgress && (
+                        <button style={{ ...styles.actionBtn, ...styles.syncBtn }} onClick={onUndoRebase}>
+                            Undo rebase
+                        </button>
+                    )}
+
                     {!isDefault && !isViewingHistory && (
                         <button 
                             style={{ 
@@ -429,6 +611,7 @@ export function VersionControlPanel({
                                 background: selectingMergeTarget ? "#16a34a" : "#22c55e" 
                             }} 
                             onClick={() => setSelectingMergeTarget(!selectingMergeTarget)}
+                            disabled={rebaseInProgress}
                         >
                             {selectingMergeTarget ? "Cancel" : "Merge"}
                         </button>
@@ -441,6 +624,10 @@ export function VersionControlPanel({
                 {layout.nodes.map((node, idx) => {
                     const isSelected = selectedCid === node.cid
                     const branchNames = node.branches.map(b => b.name)
+                    const remoteNames = remoteBranches
+                        .filter(b => b.commit === node.cid)
+                        .map(b => `${remoteName}/${b.name}`)
+                    const nodeTags = tags.filter(t => t.tag.target === node.cid)
                     
                     return (
                         <div
@@ -451,6 +638,10 @@ export function VersionControlPanel({
                                 if (newSelected) {
                                     onViewCommit(node.cid as CID<Commit>)
                                 }
+                            }}
+                            onContextMenu={(e) => {
+                                e.preventDefault()
+                                setCommitMenu({ node, x: e.clientX, y: e.clientY })
                             }}
                                     style={{
                                 ...styles.commitRow,
@@ -471,6 +662,14 @@ export function VersionControlPanel({
                                             {branchNames[0]}
                                         </span>
                                     )}
+                                    {remoteNames.map(name => (
+                                        <span key={name} style={{ ...styles.remoteBadge, borderColor: node.color, color: node.color }}>
+                                            {name}
+                                        </span>
+                                    ))}
+                                    {nodeTags.map(({ tag }) => (
+                                        <TagBadge key={tag.name} tag={tag} onOpen={openTag} />
+                                    ))}
                                     <span style={styles.commitMessage}>
                                         {node.commit.message}
                                     </span>
@@ -487,6 +686,15 @@ export function VersionControlPanel({
                 {layout.nodes.length === 0 && (
                     <div style={styles.emptyState}>No commits yet</div>
                 )}
+
+                {offGraphTags.length > 0 && (
+                    <div style={styles.offGraphTags}>
+                        <span>Tags on commits not shown:</span>
+                        {offGraphTags.map(({ tag }) => (
+                            <TagBadge key={tag.name} tag={tag} onOpen={openTag} />
+                        ))}
+                    </div>
+                )}
             </div>
 
             {/* Popups */}
@@ -548,6 +756,144 @@ export function VersionControlPanel({
                     </div>
                 )}
 
+            {tagPopup && (
+                <div style={styles.popup}>
+                    <div style={styles.popupTitle}>Tag {tagPopup.slice(0, 7)}</div>
+                    <input
+                        value={tagName}
+                        onChange={e => {
+                            setTagName(e.target.value)
+                            setTagError(null)
+                        }}
+                        placeholder="Tag name, e.g. v2.1..."
+                        onKeyDown={e => {
+                            if (e.key === "Enter") doTag()
+                            if (e.key === "Escape") setTagPopup(null)
+                        }}
+                        style={{ ...styles.input, borderColor: TAG_COLOR }}
+                        autoFocus
+                    />
+                    <input
+                        value={tagMessage}
+                        onChange={e => setTagMessage(e.target.value)}
+                        placeholder="Release notes..."
+                        onKeyDown={e => {
+                            if (e.key === "Enter") doTag()
+                            if (e.key === "Escape") setTagPopup(null)
+                        }}
+                        style={{ ...styles.input, borderColor: TAG_COLOR }}
+                    />
+                    {(tagNameTaken || tagError) && (
+                        <div style={styles.tagError}>
+                            {tagNameTaken ? `Tag '${tagName.trim()}' already exists` : tagError}
+                        </div>
+                    )}
+                    <div style={styles.popupRow}>
+                        <button
+                            style={{ ...styles.btn, background: TAG_COLOR }}
+                            onClick={doTag}
+                            disabled={!canTag}
+                        >
+                            Create tag
+                        </button>
+                        <button style={styles.cancelBtn} onClick={() => setTagPopup(null)}>
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {commitMenu && (
+                <>
+                    <div style={styles.menuBackdrop} onClick={() => setCommitMenu(null)} />
+                    <div style={{ ...styles.commitMenu, left: commitMenu.x, top: commitMenu.y }}>
+                        <div style={styles.commitMenuTitle}>
+                            {commitMenu.node.cid.slice(0, 7)} · {commitMenu.node.commit.message}
+                        </div>
+                        {rebaseInProgress ? (
+                            <div style={styles.commitMenuNote}>
+                                Continue or abort the rebase to cherry-pick or revert
+                            </div>
+                        ) : isDirty && (
+                            <div style={styles.commitMenuNote}>
+                                Commit your changes, or go back to the branch head, to cherry-pick or revert
+                            </div>
+                        )}
+                        <button
+                            style={styles.commitMenuItem}
+                            disabled={isDirty || rebaseInProgress || commitMenu.node.branches.some(b => b.uuid === currentBranch.uuid)}
+                            onClick={() => {
+                                onCherryPick(commitMenu.node.cid as CID<Commit>)
+                                setCommitMenu(null)
+                                setSelectedCid(null)
+                            }}
+                        >
+                            Cherry-pick onto {currentBranch.name}
+                        </button>
+                        {commitMenu.node.isMergeCommit ? (
+                            commitMenu.node.commit.parents.map((parent, i) => (
+                                <button
+                                    key={parent}
+                                    style={styles.commitMenuItem}
+                                    disabled={isDirty || rebaseInProgress}
+                                    onClick={() => {
+                                        onRevert(commitMenu.node.cid as CID<Commit>, i)
+                                        setCommitMenu(null)
+                                        setSelectedCid(null)
+                                    }}
+                                >
+                                    Revert, keeping parent {i + 1} · {parent.slice(0, 7)}
+                                </button>
+                            ))
+                        ) : (
+                            <button
+                                style={styles.commitMenuItem}
+                                disabled={isDirty || rebaseInProgress || commitMenu.node.commit.parents.length === 0}
+                                onClick={() => {
+                                    onRevert(commitMenu.node.cid as CID<Commit>)
+                                    setCommitMenu(null)
+                                    setSelectedCid(null)
+                                }}
+                            >
+                                Revert on {currentBranch.name}
+                            </button>
+                        )}
+                        <button
+                            style={styles.commitMenuItem}
+                            onClick={() => {
+                                setTagPopup(commitMenu.node.cid as CID<Commit>)
+                                setTagError(null)
+                                setCommitMenu(null)
+                            }}
+                        >
+                            Tag this commit…
+                        </button>
+                        {tags.filter(t => t.tag.target === commitMenu.node.cid).flatMap(({ tag }) => [
+                            <button
+                                key={`open-${tag.name}`}
+                                style={styles.commitMenuItem}
+                                onClick={() => {
+                                    openTag(tag)
+                                    setCommitMenu(null)
+                                }}
+                            >
+                                Open {tag.name} (read-only)
+                            </button>,
+                            <button
+                                key={`delete-${tag.name}`}
+                                style={styles.commitMenuItem}
+                                onClick={() => {
+                                    onDeleteTag(tag.name)
+                                    setCommitMenu(null)
+                                }}
+                            >
+                                Delete tag {tag.name}
+                            </button>
+                        ])}
+                    </div>
+                </>
+            )}
+
             {selectingMergeTarget && (
                 <div style={styles.mergeHint}>
                     Select a branch to merge <strong>{currentBranch.name}</strong> into
@@ -557,6 +903,22 @@ export function VersionControlPanel({
     )
 }
 
+function TagBadge({ tag, onOpen }: { tag: Tag, onOpen: (tag: Tag) => void }) {
+    return (
+        <span
+            style={styles.tagBadge}
+            title={`${tag.message || tag.name}\n— ${tag.tagger}, ${new Date(tag.timestamp).toLocaleString()}`}
+            onClick={(e) => {
+                // Opening a tag replaces viewing the commit the row selects
+                e.stopPropagation()
+                onOpen(tag)
+            }}
+        >
+            🏷 {tag.name}
+        </span>
+    )
+}
+
 const styles: Record<string, React.CSSProperties> = {
     container: {
         display: "flex",
@@ -579,6 +941,25 @@ const styles: Record<string, React.CSSProperties> = {
         gap: 4,
         flexWrap: "wrap",
     },
+    branchGroup: {
+        display: "flex",
+        alignItems: "center",
+        gap: 2,
+    },
+    remoteTab: {
+        display: "flex",
+        alignItems: "center",
+        gap: 4,
+        padding: "3px 8px",
+        borderRadius: 6,
+        border: "1px dashed rgba(255,255,255,0.15)",
+        fontSize: 10,
+        whiteSpace: "nowrap",
+    },
+    aheadBehind: {
+        fontFamily: "var(--font-mono, monospace)",
+        fontSize: 9,
+    },
     branchTab: {
         display: "flex",
         alignItems: "center",
@@ -599,12 +980,40 @@ const styles: Record<string, React.CSSProperties> = {
         fontSize: 10,
         marginRight: 4,
     },
+    conflictIndicator: {
+        color: "#ef4444",
+        fontSize: 10,
+        marginRight: 4,
+    },
     historyIndicator: {
         color: "#06b6d4",
         fontSize: 10,
         marginRight: 4,
         fontStyle: "italic",
     },
+    rebaseIndicator: {
+        color: "#06b6d4",
+        fontSize: 10,
+        marginRight: 4,
+    },
+    divergedIndicator: {
+        color: "#ef4444",
+        fontSize: 10,
+        marginRight: 4,
+    },
+    syncError: {
+        color: "#ef4444",
+        fontSize: 10,
+        maxWidth: 200,
+        whiteSpace: "nowrap",
+        overflow: "hidden",
+        textOverflow: "ellipsis",
+        cursor: "pointer",
+    },
+    syncBtn: {
+        background: "rgba(255,255,255,0.08)",
+        color: "var(--text-primary)",
+    },
     actionBtn: {
         padding: "5px 12px",
         borderRadius: 6,
@@ -659,6 +1068,33 @@ const styles: Record<string, React.CSSProperties> = {
         color: "white",
         flexShrink: 0,
     },
+    remoteBadge: {
+        padding: "0px 4px",
+        borderRadius: 3,
+        border: "1px dashed",
+        fontSize: 9,
+        fontWeight: 600,
+        flexShrink: 0,
+    },
+    tagBadge: {
+        padding: "0px 4px",
+        borderRadius: 3,
+        border: `1px solid ${TAG_COLOR}`,
+        color: TAG_COLOR,
+        fontSize: 9,
+        fontWeight: 600,
+        flexShrink: 0,
+        cursor: "pointer",
+    },
+    offGraphTags: {
+        display: "flex",
+        alignItems: "center",
+        flexWrap: "wrap",
+        gap: 6,
+        padding: "6px 8px",
+        fontSize: 10,
+        color: "#666",
+    },
     mergeBadge: {
         padding: "1px 4px",
         borderRadius: 3,
@@ -741,6 +1177,52 @@ const styles: Record<string, React.CSSProperties> = {
         fontSize: 13,
         cursor: "pointer",
     },
+    menuBackdrop: {
+        position: "fixed",
+        inset: 0,
+        zIndex: 99,
+    },
+    commitMenu: {
+        position: "fixed",
+        display: "flex",
+        flexDirection: "column",
+        background: "var(--bg-tertiary)",
+        border: "1px solid rgba(255,255,255,0.1)",
+        borderRadius: 8,
+        padding: 4,
+        minWidth: 200,
+        maxWidth: 320,
+        zIndex: 100,
+        boxShadow: "0 8px 24px rgba(0,0,0,0.5)",
+    },
+    commitMenuTitle: {
+        fontSize: 10,
+        color: "#888",
+        padding: "4px 8px 6px",
+        whiteSpace: "nowrap",
+        overflow: "hidden",
+        textOverflow: "ellipsis",
+    },
+    tagError: {
+        fontSize: 11,
+        color: "#ef4444",
+        marginBottom: 12,
+    },
+    commitMenuNote: {
+        fontSize: 10,
+        color: "#f59e0b",
+        padding: "0 8px 6px",
+    },
+    commitMenuItem: {
+        background: "transparent",
+        border: "none",
+        borderRadius: 4,
+        padding: "6px 8px",
+        color: "var(--text-primary)",
+        fontSize: 11,
+        textAlign: "left",
+        cursor: "pointer",
+    },
     mergeHint: {
         position: "absolute",
         bottom: 12,
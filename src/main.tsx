@@ -1,11 +1,27 @@
 import { StrictMode } from "react"
 import { createRoot } from "react-dom/client"
 import App from "./App"
+import { VersionControl } from "./version_control/VersionControl"
+import { IndexedDBRepository } from "./version_control/store/IndexedDBStore"
 import "./index.css"
 
-createRoot(document.getElementById("root")!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>
-)
+/**
+ * Open the project persisted in IndexedDB, falling back to an in-memory
+ * repository when IndexedDB is unavailable (e.g. private browsing).
+ */
+async function openVersionControl(): Promise<VersionControl> {
+  try {
+    return await VersionControl.open(await IndexedDBRepository.open())
+  } catch (error) {
+    console.warn("IndexedDB unavailable, changes will not persist", error)
+    return new VersionControl()
+  }
+}
 
+openVersionControl().then((vc) => {
+  createRoot(document.getElementById("root")!).render(
+    <StrictMode>
+      <App vc={vc} />
+    </StrictMode>
+  )
+})
@@ -1,5 +1,6 @@
 import { Descendant, Element as SlateElement, Text as SlateText } from "slate"
-import { CID, CIDable, cid } from "./version_control/cid"
+import { CID } from "./version_control/cid"
+import { ContentStore, Resolver } from "./version_control/store/ContentStore"
 import {
     BlockNode,
     Document,
@@ -10,6 +11,7 @@ import {
     CodeBlock,
     BlockQuote,
     HorizontalRule,
+    Conflict,
     InlineNode,
     Text,
     Emphasis,
@@ -35,20 +37,26 @@ type CustomElement = {
     href?: string
     src?: string
     alt?: string
+    // Conflict blocks: block CIDs of each side, plus both sides projected for display
+    base?: string[]
+    ours?: string[]
+    theirs?: string[]
+    oursContent?: CustomElement[]
+    theirsContent?: CustomElement[]
     children: (CustomElement | CustomText)[]
 }
 
-type KVStore = {
-    put: <T extends CIDable>(node: T) => CID<T>
-    get: <T extends CIDable>(id: CID<T>) => T | undefined
-}
+/**
+ * The projection only needs to read and write nodes
+ */
+type ProjectionStore = Pick<ContentStore, "put" | "get">
 
 /**
  * Convert a Document to Slate Descendant array
  */
 export function documentToSlate(
     doc: Document,
-    resolve: <T extends CIDable>(cid: CID<T>) => T | undefined
+    resolve: Resolver
 ): Descendant[] {
     if (doc.content.length === 0) {
         // Return empty paragraph for empty documents
@@ -66,7 +74,7 @@ export function documentToSlate(
 
 function blockNodeToSlate(
     block: BlockNode,
-    resolve: <T extends CIDable>(cid: CID<T>) => T | undefined
+    resolve: Resolver
 ): SlateElement {
     switch (block.type) {
         case "heading":
@@ -123,14 +131,36 @@ function blockNodeToSlate(
                 children: [{ text: "" }],
             } as CustomElement
 
+        case "conflict":
+            return {
+                type: "conflict",
+                base: block.base,
+                ours: block.ours,
+                theirs: block.theirs,
+                oursContent: blocksToSlate(block.ours, resolve),
+                theirsContent: blocksToSlate(block.theirs, resolve),
+                children: [{ text: "" }],
+            } as CustomElement
+
         default:
             return { type: "paragraph", children: [{ text: "" }] } as CustomElement
     }
 }
 
+/**
+ * Convert a list of block CIDs to Slate elements
+ */
+export function blocksToSlate(cids: CID<BlockNode>[], resolve: Resolver): SlateElement[] {
+    return cids.map((blockCid) => {
+        const block = resolve(blockCid)
+        if (!block) return { type: "paragraph", children: [{ text: "" }] }
+        return blockNodeToSlate(block, resolve)
+    })
+}
+
 function inlineNodesToSlate(
     cids: CID<InlineNode>[],
-    resolve: <T extends CIDable>(cid: CID<T>) => T | undefined
+    resolve: Resolver
 ): (CustomText | CustomElement)[] {
     if (cids.length === 0) {
         return [{ text: "" }]
@@ -149,7 +179,7 @@ function inlineNodesToSlate(
 
 function inlineNodeToSlate(
     inline: InlineNode,
-    resolve: <T extends CIDable>(cid: CID<T>) => T | undefined
+    resolve: Resolver
 ): (CustomText | CustomElement)[] {
     switch (inline.type) {
         case "text":
@@ -186,7 +216,7 @@ function inlineNodeToSlate(
 
 function flattenWithMark(
     cids: CID<InlineNode>[],
-    resolve: <T extends CIDable>(cid: CID<T>) => T | undefined,
+    resolve: Resolver,
     mark: "bold" | "italic"
 ): CustomText[] {
     const result: CustomText[] = []
@@ -208,7 +238,7 @@ function flattenWithMark(
  */
 export function slateToDocument(
     descendants: Descendant[],
-    store: KVStore,
+    store: ProjectionStore,
     existingDoc?: Document
 ): { document: Document; documentCid: CID<Document> } {
     const blockCids: CID<BlockNode>[] = []
@@ -224,6 +254,7 @@ export function slateToDocument(
 
     const document: Document = {
         type: "document",
+        id: existingDoc?.id,
         name: existingDoc?.name,
         createdAt: existingDoc?.createdAt ?? new Date().toISOString(),
         content: blockCids,
@@ -235,7 +266,7 @@ export function slateToDocument(
 
 function slateElementToBlockNode(
     element: CustomElement,
-    store: KVStore
+    store: ProjectionStore
 ): { blockNode: BlockNode | null; blockCid: CID<BlockNode> } {
     let blockNode: BlockNode
 
@@ -324,6 +355,18 @@ function slateElementToBlockNode(
             break
         }
 
+        case "conflict": {
+            // Sides are kept as CIDs; the projected content is display only
+            const conflict: Conflict = {
+                type: "conflict",
+                base: (element.base ?? []) as CID<BlockNode>[],
+                ours: (element.ours ?? []) as CID<BlockNode>[],
+                theirs: (element.theirs ?? []) as CID<BlockNode>[],
+            }
+            blockNode = conflict
+            break
+        }
+
         default: {
             // Default to paragraph
             const inlineCids = slateChildrenToInlineNodes(element.children, store)
@@ -341,7 +384,7 @@ function slateElementToBlockNode(
 
 function slateChildrenToInlineNodes(
     children: (CustomElement | CustomText)[],
-    store: KVStore
+    store: ProjectionStore
 ): CID<InlineNode>[] {
     const inlineCids: CID<InlineNode>[] = []
 
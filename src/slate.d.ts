@@ -17,6 +17,12 @@ type CustomElement = {
     href?: string
     src?: string
     alt?: string
+    // Conflict blocks: block CIDs of each side, plus both sides projected for display
+    base?: string[]
+    ours?: string[]
+    theirs?: string[]
+    oursContent?: CustomElement[]
+    theirsContent?: CustomElement[]
     children: (CustomElement | CustomText)[]
 }
 
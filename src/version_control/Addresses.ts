@@ -0,0 +1,120 @@
+import { CID, CIDable } from "./cid"
+import { Diff3 } from "./Diff3"
+import { GrammarRoot } from "./immutable/grammar"
+import { Address } from "./mutable/address"
+import { Path, Paths } from "./path"
+import { Resolver } from "./store/ContentStore"
+import { TreeWalker } from "./TreeWalker"
+import { v4 as uuidv4 } from "uuid"
+
+/**
+ * Follows addresses from one version of the tree to another.
+ * The document is found by its id, so renames and moves are followed; inside
+ * it each list on the path is aligned against the anchor's, so insertions,
+ * deletions and edits around the node, or of the node itself, are followed too.
+ */
+export const Addresses = {
+    /**
+     * Address the node at a path in a root. The path must lead into a document with an id.
+     */
+    create<T>(rootCid: CID<GrammarRoot>, path: Path<T>, resolve: Resolver): Address<T> {
+        const info = TreeWalker.getDocuments(rootCid, resolve)
+            .find(d => d.location.every((segment, i) => path[i] === segment))
+        if (!info) throw new Error(`No document at ${path.join(".")}`)
+        if (!info.doc.id) throw new Error(`'${info.path}' has no id and cannot be addressed`)
+
+        return {
+            uuid: uuidv4(),
+            documentId: info.doc.id,
+            anchor: info.cid,
+            path: Paths.of(path.slice(info.location.length))
+        }
+    },
+
+    /**
+     * Where the addressed node is in a root, or undefined if it is gone
+     */
+    locate<T>(address: Address<T>, rootCid: CID<GrammarRoot>, resolve: Resolver): Path<T> | undefined {
+        const info = TreeWalker.getDocuments(rootCid, resolve).find(d => d.doc.id === address.documentId)
+        if (!info) return undefined
+
+        const inner = follow(address.anchor, info.cid, address.path, resolve)
+        return inner && Paths.child<T>(info.location, ...inner)
+    },
+
+    /**
+     * Anchor an address to the document in a root, so later lookups start from
+     * there. Unchanged if the node is not in that root.
+     */
+    reanchor<T>(address: Address<T>, rootCid: CID<GrammarRoot>, resolve: Resolver): Address<T> {
+        const info = TreeWalker.getDocuments(rootCid, resolve).find(d => d.doc.id === address.documentId)
+        if (!info || info.cid === address.anchor) return address
+
+        const inner = follow(address.anchor, info.cid, address.path, resolve)
+        return inner ? { ...address, anchor: info.cid, path: Paths.of(inner) } : address
+    }
+}
+
+/**
+ * Map a path below one node onto the corresponding path below another version of it
+ */
+function follow(
+    fromCid: CID<any>,
+    toCid: CID<any>,
+    path: (string | number)[],
+    resolve: Resolver
+): (string | number)[] | undefined {
+    if (path.length === 0) return []
+
+    const from = resolve(fromCid as CID<CIDable>) as Record<string, unknown> | undefined
+    const to = resolve(toCid as CID<CIDable>) as Record<string, unknown> | undefined
+    if (!from || !to || from.type !== to.type) return undefined
+
+    const [field, next, ...rest] = path
+    const fromValue = from[field]
+    const toValue = to[field]
+
+    if (typeof next === "number") {
+        if (!Array.isArray(fromValue) || !Array.isArray(toValue)) return undefined
+        const index = mapIndex(fromValue, toValue, next, resolve)
+        if (index === undefined) return undefined
+        const tail = follow(fromValue[next], toValue[index], rest, resolve)
+        return tail && [field, index, ...tail]
+    }
+
+    if (typeof fromValue !== "string" || typeof toValue !== "string") return undefined
+    const tail = follow(fromValue as CID<any>, toValue as CID<any>, path.slice(1), resolve)
+    return tail && [field, ...tail]
+}
+
+/**
+ * Where an item of a CID list went in another version of the list. An item
+ * both versions share is found directly. An edited item is matched within
+ * the changed region around it: the only item of the same node type there,
+ * else the one at the same offset if it has the same type.
+ */
+function mapIndex(from: CID<any>[], to: CID<any>[], index: number, resolve: Resolver): number | undefined {
+    const pairs = Diff3.lcs(from, to)
+    const kept = pairs.find(([i]) => i === index)
+    if (kept) return kept[1]
+
+    // The changed region between the nearest kept items on either side
+    const before = pairs.filter(([i]) => i < index).pop()
+    const after = pairs.find(([i]) => i > index)
+    const fromStart = before ? before[0] + 1 : 0
+    const toStart = before ? before[1] + 1 : 0
+    const toEnd = after ? after[1] : to.length
+
+    const typeOf = (id: CID<any>) => (resolve(id as CID<CIDable>) as { type?: string } | undefined)?.type
+    const type = typeOf(from[index])
+    const candidates: number[] = []
+    for (let j = toStart; j < toEnd; j++) {
+        if (typeOf(to[j]) === type) candidates.push(j)
+    }
+    if (candidates.length === 1) return candidates[0]
+
+    const sameOffset = toStart + (index - fromStart)
+    return candidates.includes(sameOffset) ? sameOffset : undefined
+}
+
+export type { Address }
@@ -0,0 +1,129 @@
+import { cid, CID, CIDable } from "./cid"
+import { Commit } from "./immutable/commit"
+import { Branch } from "./mutable/branch"
+import { Resolver } from "./store/ContentStore"
+import { GarbageCollector } from "./GarbageCollector"
+import { TreeWalker } from "./TreeWalker"
+
+const BUNDLE_FORMAT = "merkurial-bundle"
+const BUNDLE_VERSION = 1
+
+/**
+ * A self-describing, single-file snapshot of part of a repository:
+ * the selected branch refs and every node reachable from them.
+ */
+export type Bundle = {
+    format: typeof BUNDLE_FORMAT
+    version: typeof BUNDLE_VERSION
+    createdAt: string
+    branches: Branch[]
+    /**
+     * Commits the recipient is expected to have already. Nodes reachable
+     * from them are left out of the bundle.
+     */
+    prerequisites: CID<Commit>[]
+    nodes: Record<string, CIDable>
+}
+
+/**
+ * Outcome of importing a bundle into a repository
+ */
+export type BundleImportReport = {
+    /** Nodes stored from the bundle, i.e. the new part of the complete branches' history */
+    imported: number
+    /** Nodes dropped because they do not hash to their key */
+    rejected: CID<any>[]
+    /** Branches the repository did not have yet */
+    added: Branch[]
+    /** Local branches fast-forwarded to the bundle's head */
+    fastForwarded: Branch[]
+    /** Local branches whose history has diverged from the bundle's; left untouched */
+    diverged: Branch[]
+    /** The checked-out branch, when it could be fast-forwarded but has uncommitted changes; left untouched */
+    skipped: Branch[]
+    /** Bundle branches with part of their history missing or rejected; not applied */
+    incomplete: Branch[]
+}
+
+/**
+ * Creating, reading and writing bundles.
+ * Separated from VersionControl to keep the core minimal.
+ */
+export const BundleFormat = {
+    /**
+     * Build a bundle of the given branches.
+     * @param options.knownHeads - Commits the recipient already has; everything
+     *   reachable from them is omitted so only the missing part is shipped
+     */
+    create(
+        branches: Branch[],
+        resolve: Resolver,
+        options?: { knownHeads?: CID<Commit>[] }
+    ): Bundle {
+        // Heads we have never seen cannot be used to prune anything
+        const prerequisites = (options?.knownHeads ?? []).filter(head => resolve(head)?.type === "commit")
+        const known = GarbageCollector.mark(prerequisites, resolve)
+
+        const nodes: Record<string, CIDable> = {}
+        for (const branch of branches) {
+            for (const id of TreeWalker.collectAllCids(branch.commit, resolve)) {
+                if (known.has(id) || id in nodes) continue
+                const node = resolve(id as CID<CIDable>)
+                if (node) nodes[id] = node
+            }
+        }
+
+        return {
+            format: BUNDLE_FORMAT,
+            version: BUNDLE_VERSION,
+            createdAt: new Date().toISOString(),
+            branches: branches.map(b => ({ ...b })),
+            prerequisites,
+            nodes
+        }
+    },
+
+    /**
+     * Serialize a bundle to the text written to disk
+     */
+    serialize(bundle: Bundle): string {
+        return JSON.stringify(bundle)
+    },
+
+    /**
+     * Parse bundle text, rejecting anything that is not a bundle this version understands
+     */
+    parse(text: string): Bundle {
+        const bundle = JSON.parse(text)
+        if (bundle?.format !== BUNDLE_FORMAT) {
+            throw new Error("Not a merkurial bundle")
+        }
+        if (bundle.version !== BUNDLE_VERSION) {
+            throw new Error(`Unsupported bundle version ${bundle.version}`)
+        }
+        return bundle as Bundle
+    },
+
+    /**
+     * Nodes of the bundle whose content hashes to their key, plus the keys that do not
+     */
+    verifiedNodes(bundle: Bundle): { valid: [CID<any>, CIDable][], rejected: CID<any>[] } {
+        const valid: [CID<any>, CIDable][] = []
+        const rejected: CID<any>[] = []
+        for (const [id, node] of Object.entries(bundle.nodes)) {
+            if (cid(node) === id) {
+                valid.push([id as CID<any>, node])
+            } else {
+                rejected.push(id as CID<any>)
+            }
+        }
+        return { valid, rejected }
+    },
+
+    /**
+     * Read-only view of the bundle's nodes, e.g. as a repair source for fsck
+     */
+    toResolver(bundle: Bundle): Resolver {
+        return <T extends CIDable>(id: CID<T>) => bundle.nodes[id] as T | undefined
+    }
+}
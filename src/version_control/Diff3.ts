@@ -0,0 +1,241 @@
+/**
+ * A run of the merged sequence
+ */
+export type Diff3Hunk<T> =
+    /** Unchanged on both sides */
+    | { kind: "stable", items: T[] }
+    /** Changed on one side only, or identically on both */
+    | { kind: "ours" | "theirs" | "both", items: T[] }
+    /** Changed differently on both sides */
+    | { kind: "conflict", base: T[], ours: T[], theirs: T[] }
+
+/**
+ * A region of the three sequences. In a stable chunk all three slices have
+ * the same length and are pairwise equal item by item.
+ */
+export type Diff3Chunk<T> = {
+    stable: boolean
+    base: T[]
+    ours: T[]
+    theirs: T[]
+}
+
+/**
+ * diff3 over arbitrary sequences (block CIDs, characters, ...).
+ * Used by ThreeWayMerge for block lists and text.
+ */
+export const Diff3 = {
+    /**
+     * Index pairs of a longest common subsequence of a and b, in order.
+     * Myers' diff in linear space, so long texts with few changes stay cheap
+     * and no n×m table is ever allocated.
+     */
+    lcs<T>(a: T[], b: T[], equals: (x: T, y: T) => boolean = Object.is): [number, number][] {
+        const pairs: [number, number][] = []
+        diffRange(a, b, equals, 0, a.length, 0, b.length, pairs)
+        return pairs
+    },
+
+    /**
+     * Split three sequences into stable chunks (items both sides kept, in
+     * place) and the unstable chunks between them
+     */
+    align<T>(base: T[], ours: T[], theirs: T[], equals: (x: T, y: T) => boolean = Object.is): Diff3Chunk<T>[] {
+        const oursAt = new Map(this.lcs(base, ours, equals))
+        const theirsAt = new Map(this.lcs(base, theirs, equals))
+
+        const chunks: Diff3Chunk<T>[] = []
+        let b = 0
+        let o = 0
+        let t = 0
+        while (b < base.length || o < ours.length || t < theirs.length) {
+            if (b < base.length && oursAt.get(b) === o && theirsAt.get(b) === t) {
+                const last = chunks[chunks.length - 1]
+                if (last?.stable) {
+                    last.base.push(base[b])
+                    last.ours.push(ours[o])
+                    last.theirs.push(theirs[t])
+                } else {
+                    chunks.push({ stable: true, base: [base[b]], ours: [ours[o]], theirs: [theirs[t]] })
+                }
+                b++
+                o++
+                t++
+                continue
+            }
+
+            // Next base item both sides kept ends the unstable region
+            let sync = b
+            while (sync < base.length && !(oursAt.has(sync) && theirsAt.has(sync))) sync++
+            const oursEnd = sync < base.length ? oursAt.get(sync)! : ours.length
+            const theirsEnd = sync < base.length ? theirsAt.get(sync)! : theirs.length
+
+            chunks.push({
+                stable: false,
+                base: base.slice(b, sync),
+                ours: ours.slice(o, oursEnd),
+                theirs: theirs.slice(t, theirsEnd)
+            })
+
+            b = sync
+            o = oursEnd
+            t = theirsEnd
+        }
+
+        return chunks
+    },
+
+    /**
+     * Merge two edits of a base sequence. Regions only one side changed take
+     * that side's items; regions both sides changed differently are conflicts.
+     */
+    merge<T>(base: T[], ours: T[], theirs: T[], equals: (x: T, y: T) => boolean = Object.is): Diff3Hunk<T>[] {
+        const sameItems = (x: T[], y: T[]) => x.length === y.length && x.every((item, idx) => equals(item, y[idx]))
+
+        return this.align(base, ours, theirs, equals).map((chunk): Diff3Hunk<T> => {
+            if (chunk.stable) {
+                return { kind: "stable", items: chunk.base }
+            } else if (sameItems(chunk.ours, chunk.theirs)) {
+                return { kind: "both", items: chunk.ours }
+            } else if (sameItems(chunk.base, chunk.ours)) {
+                return { kind: "theirs", items: chunk.theirs }
+            } else if (sameItems(chunk.base, chunk.theirs)) {
+                return { kind: "ours", items: chunk.ours }
+            }
+            return { kind: "conflict", base: chunk.base, ours: chunk.ours, theirs: chunk.theirs }
+        })
+    },
+
+    /**
+     * The merged sequence, or null if any hunk conflicts
+     */
+    mergeClean<T>(base: T[], ours: T[], theirs: T[], equals?: (x: T, y: T) => boolean): T[] | null {
+        const merged: T[] = []
+        for (const hunk of this.merge(base, ours, theirs, equals)) {
+            if (hunk.kind === "conflict") return null
+            merged.push(...hunk.items)
+        }
+        return merged
+    }
+}
+
+/**
+ * Append the LCS pairs of a[aLo..aHi) and b[bLo..bHi) to `pairs`, in order
+ */
+function diffRange<T>(
+    a: T[],
+    b: T[],
+    equals: (x: T, y: T) => boolean,
+    aLo: number,
+    aHi: number,
+    bLo: number,
+    bHi: number,
+    pairs: [number, number][]
+): void {
+    // Common prefix and suffix are always part of an LCS; only diff the middle
+    while (aLo < aHi && bLo < bHi && equals(a[aLo], b[bLo])) {
+        pairs.push([aLo++, bLo++])
+    }
+    let suffix = 0
+    while (aHi > aLo && bHi > bLo && equals(a[aHi - 1], b[bHi - 1])) {
+        aHi--
+        bHi--
+        suffix++
+    }
+
+    if (aLo < aHi && bLo < bHi) {
+        const split = middleOfPath(a, b, equals, aLo, aHi, bLo, bHi)
+        if (split) {
+            diffRange(a, b, equals, aLo, split[0], bLo, split[1], pairs)
+            diffRange(a, b, equals, split[0], aHi, split[1], bHi, pairs)
+        }
+    }
+
+    for (let k = 0; k < suffix; k++) pairs.push([aHi + k, bHi + k])
+}
+
+/**
+ * A point on a shortest edit path between a[aLo..aHi) and b[bLo..bHi), found
+ * by searching from both ends until the paths meet, or null if the ranges
+ * have nothing in common. The ranges must differ at both ends.
+ */
+function middleOfPath<T>(
+    a: T[],
+    b: T[],
+    equals: (x: T, y: T) => boolean,
+    aLo: number,
+    aHi: number,
+    bLo: number,
+    bHi: number
+): [number, number] | null {
+    const n = aHi - aLo
+    const m = bHi - bLo
+    const maxD = Math.ceil((n + m) / 2)
+    const offset = maxD
+    // forward[offset + k]: furthest x reached from the start on diagonal k = x - y;
+    // backward likewise from the end, with x and y counted from the end
+    const forward = new Int32Array(2 * maxD + 2).fill(-1)
+    const backward = new Int32Array(2 * maxD + 2).fill(-1)
+    forward[offset + 1] = 0
+    backward[offset + 1] = 0
+    const delta = n - m
+    // With an odd delta the forward search is the one that can meet the backward path
+    const forwardMeets = delta % 2 !== 0
+    // Diagonals that ran off the edges are not searched again
+    let forwardStart = 0
+    let forwardEnd = 0
+    let backwardStart = 0
+    let backwardEnd = 0
+
+    for (let d = 0; d < maxD; d++) {
+        for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+            let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+                ? forward[offset + k + 1]
+                : forward[offset + k - 1] + 1
+            let y = x - k
+            while (x < n && y < m && equals(a[aLo + x], b[bLo + y])) {
+                x++
+                y++
+            }
+            forward[offset + k] = x
+            if (x > n) {
+                forwardEnd += 2
+            } else if (y > m) {
+                forwardStart += 2
+            } else if (forwardMeets) {
+                const opposite = offset + delta - k
+                if (opposite >= 0 && opposite < backward.length && backward[opposite] !== -1
+                    && x >= n - backward[opposite]) {
+                    return [aLo + x, bLo + y]
+                }
+            }
+        }
+
+        for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+            let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+                ? backward[offset + k + 1]
+                : backward[offset + k - 1] + 1
+            let y = x - k
+            while (x < n && y < m && equals(a[aHi - x - 1], b[bHi - y - 1])) {
+                x++
+                y++
+            }
+            backward[offset + k] = x
+            if (x > n) {
+                backwardEnd += 2
+            } else if (y > m) {
+                backwardStart += 2
+            } else if (!forwardMeets) {
+                const opposite = offset + delta - k
+                if (opposite >= 0 && opposite < forward.length && forward[opposite] !== -1) {
+                    const forwardX = forward[opposite]
+                    if (forwardX >= n - x) {
+                        return [aLo + forwardX, bLo + forwardX - (opposite - offset)]
+                    }
+                }
+            }
+        }
+    }
+
+    return null
+}
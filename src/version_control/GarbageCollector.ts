@@ -0,0 +1,87 @@
+import stringify from "fast-json-stable-stringify"
+import { CID } from "./cid"
+import { ContentStore, Resolver } from "./store/ContentStore"
+import { TreeWalker } from "./TreeWalker"
+
+/**
+ * Outcome of a garbage collection run
+ */
+export type GarbageCollectionReport = {
+    dryRun: boolean
+    /** Nodes reachable from the roots */
+    reachableNodes: number
+    /** Store entries that were (or, in a dry run, would be) deleted */
+    reclaimedNodes: number
+    /** Serialized size of the reclaimed entries */
+    reclaimedBytes: number
+}
+
+/**
+ * Mark-and-sweep garbage collection over content stores.
+ * Separated from VersionControl to keep the core minimal.
+ */
+export const GarbageCollector = {
+    /**
+     * Collect every CID reachable from the given roots.
+     * Commit roots pull in their whole history, since parents are CIDs too.
+     */
+    mark(roots: CID<any>[], resolve: Resolver): Set<string> {
+        const reachable = new Set<string>()
+        for (const root of roots) {
+            if (reachable.has(root)) continue
+            for (const id of TreeWalker.collectAllCids(root, resolve)) {
+                reachable.add(id)
+            }
+        }
+        return reachable
+    },
+
+    /**
+     * Delete every entry of the stores that is not in the reachable set
+     */
+    sweep(
+        stores: ContentStore[],
+        reachable: Set<string>,
+        options?: { dryRun?: boolean }
+    ): GarbageCollectionReport {
+        const dryRun = options?.dryRun ?? false
+        const encoder = new TextEncoder()
+        let reclaimedNodes = 0
+        let reclaimedBytes = 0
+
+        for (const store of stores) {
+            const garbage: string[] = []
+            for (const [id, node] of store.entries()) {
+                if (reachable.has(id)) continue
+                garbage.push(id)
+                reclaimedBytes += encoder.encode(stringify(node)).length
+            }
+
+            reclaimedNodes += garbage.length
+            if (!dryRun) {
+                for (const id of garbage) {
+                    store.delete(id as CID<any>)
+                }
+            }
+        }
+
+        return {
+            dryRun,
+            reachableNodes: reachable.size,
+            reclaimedNodes,
+            reclaimedBytes
+        }
+    },
+
+    /**
+     * Mark from the roots, then sweep the stores
+     */
+    collect(
+        stores: ContentStore[],
+        roots: CID<any>[],
+        resolve: Resolver,
+        options?: { dryRun?: boolean }
+    ): GarbageCollectionReport {
+        return this.sweep(stores, this.mark(roots, resolve), options)
+    }
+}
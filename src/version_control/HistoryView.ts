@@ -1,11 +1,9 @@
-import { CID, CIDable } from "./cid"
+import { CID } from "./cid"
 import { Commit } from "./immutable/commit"
 import { Branch } from "./mutable/branch"
+import { Resolver } from "./store/ContentStore"
 
-/**
- * Resolver function type
- */
-export type Resolver = <T extends CIDable>(id: CID<T>) => T | undefined
+export type { Resolver }
 
 /**
  * A commit node with metadata for visualization
@@ -17,6 +15,16 @@ export type CommitNode = {
     isMergeCommit: boolean
 }
 
+/**
+ * How far two heads have moved apart since their shared history
+ */
+export type AheadBehind = {
+    /** Commits reachable from the local head only */
+    ahead: number
+    /** Commits reachable from the other head only */
+    behind: number
+}
+
 /**
  * Utility for building commit history views.
  * Separated from VersionControl to keep the core minimal.
@@ -137,6 +145,68 @@ export const HistoryView = {
         }
 
         return false
+    },
+
+    /**
+     * Commits on head's first-parent line that upstream does not contain,
+     * oldest first: what a rebase of head onto upstream replays
+     */
+    commitsSince(
+        head: CID<Commit>,
+        upstream: CID<Commit>,
+        resolve: Resolver
+    ): CID<Commit>[] {
+        const upstreamAncestors = collectAncestors(upstream, resolve)
+        const commits: CID<Commit>[] = []
+
+        let cid: CID<Commit> | undefined = head
+        while (cid && !upstreamAncestors.has(cid)) {
+            commits.push(cid)
+            cid = (resolve(cid) as Commit | undefined)?.parents[0]
+        }
+
+        return commits.reverse()
+    },
+
+    /**
+     * Count the commits each head has that the other does not
+     */
+    countAheadBehind(
+        local: CID<Commit>,
+        other: CID<Commit>,
+        resolve: Resolver
+    ): AheadBehind {
+        const localAncestors = collectAncestors(local, resolve)
+        const otherAncestors = collectAncestors(other, resolve)
+
+        let ahead = 0
+        for (const cid of localAncestors) {
+            if (!otherAncestors.has(cid)) ahead++
+        }
+        let behind = 0
+        for (const cid of otherAncestors) {
+            if (!localAncestors.has(cid)) behind++
+        }
+
+        return { ahead, behind }
     }
 }
 
+function collectAncestors(head: CID<Commit>, resolve: Resolver): Set<string> {
+    const visited = new Set<string>()
+    const queue: CID<Commit>[] = [head]
+
+    while (queue.length > 0) {
+        const cid = queue.shift()!
+        if (visited.has(cid)) continue
+        visited.add(cid)
+
+        const commit = resolve(cid) as Commit | undefined
+        if (commit) {
+            queue.push(...commit.parents)
+        }
+    }
+
+    return visited
+}
+
@@ -0,0 +1,190 @@
+import { cid, CID, CIDable } from "./cid"
+import { Commit } from "./immutable/commit"
+import { GrammarRoot } from "./immutable/grammar"
+import { Tag } from "./immutable/tag"
+import { Branch } from "./mutable/branch"
+import { ContentStore, Resolver } from "./store/ContentStore"
+import { TreeWalker } from "./TreeWalker"
+
+/**
+ * A single problem found by the integrity check
+ */
+export type IntegrityIssue =
+    /** A stored node no longer hashes to the key it is stored under */
+    | { kind: "corrupted_node", cid: CID<any>, actualCid: CID<any> }
+    /** A node references a CID that is not in any store */
+    | { kind: "dangling_reference", from: CID<any>, missing: CID<any> }
+    /** A commit whose content root is not in any store */
+    | { kind: "missing_commit_content", commit: CID<Commit>, content: CID<GrammarRoot> }
+    /** A branch whose head is missing or is not a commit */
+    | { kind: "branch_not_commit", branch: Branch, target: CID<Commit> }
+    /** A tag name whose tag object is missing or is not a tag */
+    | { kind: "tag_not_tag", name: string, target: CID<Tag> }
+    /** The working root is not in any store */
+    | { kind: "missing_working_root", root: CID<GrammarRoot> }
+
+export type IntegrityReport = {
+    ok: boolean
+    checkedNodes: number
+    issues: IntegrityIssue[]
+}
+
+/**
+ * References besides branches that must resolve
+ */
+export type IntegrityRefs = {
+    tags?: Record<string, CID<Tag>>
+    workingRoot?: CID<GrammarRoot>
+}
+
+export type RepairReport = {
+    /** CIDs that were fetched from the source and stored */
+    repaired: CID<any>[]
+    /** CIDs the source could not provide (or provided with a wrong hash) */
+    unrepaired: CID<any>[]
+}
+
+/**
+ * fsck-style verification of a repository's stores and refs.
+ * Separated from VersionControl to keep the core minimal.
+ */
+export const IntegrityCheck = {
+    /**
+     * Re-hash every stored node and check that every reference resolves
+     */
+    verify(stores: ContentStore[], branches: Branch[], refs: IntegrityRefs = {}): IntegrityReport {
+        const issues: IntegrityIssue[] = []
+        const corrupted = new Set<string>()
+        const checked = new Set<string>()
+
+        for (const store of stores) {
+            for (const [id, node] of store.entries()) {
+                const actualCid = cid(node)
+                if (actualCid !== id) {
+                    corrupted.add(id)
+                    issues.push({ kind: "corrupted_node", cid: id as CID<any>, actualCid })
+                }
+            }
+        }
+
+        const exists = (id: CID<any>) =>
+            !corrupted.has(id) && stores.some(store => store.has(id))
+
+        for (const store of stores) {
+            for (const [id, node] of store.entries()) {
+                if (checked.has(id) || corrupted.has(id)) continue
+                checked.add(id)
+
+                if (node.type === "commit") {
+                    if (!exists(node.content)) {
+                        issues.push({ kind: "missing_commit_content", commit: id as CID<Commit>, content: node.content })
+                    }
+                    for (const parent of node.parents) {
+                        if (!exists(parent)) {
+                            issues.push({ kind: "dangling_reference", from: id as CID<any>, missing: parent })
+                        }
+                    }
+                    continue
+                }
+
+                for (const child of TreeWalker.getChildCids(node)) {
+                    if (!exists(child)) {
+                        issues.push({ kind: "dangling_reference", from: id as CID<any>, missing: child })
+                    }
+                }
+            }
+        }
+
+        for (const branch of branches) {
+            const target = exists(branch.commit) ? getFrom(stores, branch.commit) : undefined
+            if (target?.type !== "commit") {
+                issues.push({ kind: "branch_not_commit", branch, target: branch.commit })
+            }
+        }
+
+        for (const [name, target] of Object.entries(refs.tags ?? {})) {
+            const tag = exists(target) ? getFrom(stores, target) : undefined
+            if (tag?.type !== "tag") {
+                issues.push({ kind: "tag_not_tag", name, target })
+            }
+        }
+
+        if (refs.workingRoot && !exists(refs.workingRoot)) {
+            issues.push({ kind: "missing_working_root", root: refs.workingRoot })
+        }
+
+        return { ok: issues.length === 0, checkedNodes: checked.size, issues }
+    },
+
+    /**
+     * Re-fetch everything the report found missing or corrupted from another
+     * source (e.g. an imported bundle), along with any of its descendants that
+     * are also missing. Nodes are only accepted if they hash to the CID asked for.
+     */
+    repair(
+        report: IntegrityReport,
+        stores: ContentStore[],
+        target: ContentStore,
+        source: Resolver
+    ): RepairReport {
+        const wanted = new Set<CID<any>>()
+        for (const issue of report.issues) {
+            switch (issue.kind) {
+                case "corrupted_node":
+                    wanted.add(issue.cid)
+                    break
+                case "dangling_reference":
+                    wanted.add(issue.missing)
+                    break
+                case "missing_commit_content":
+                    wanted.add(issue.content)
+                    break
+                case "branch_not_commit":
+                case "tag_not_tag":
+                    wanted.add(issue.target)
+                    break
+                case "missing_working_root":
+                    wanted.add(issue.root)
+                    break
+            }
+        }
+
+        // Corrupted entries must go before their good copies can be stored
+        for (const issue of report.issues) {
+            if (issue.kind === "corrupted_node") {
+                for (const store of stores) store.delete(issue.cid)
+            }
+        }
+
+        const repaired: CID<any>[] = []
+        const unrepaired: CID<any>[] = []
+        const present = (id: CID<any>) => stores.some(store => store.has(id))
+
+        // Walked with an explicit stack: a long missing history would overflow recursion
+        const stack = [...wanted].reverse()
+        const failed = new Set<CID<any>>()
+        while (stack.length > 0) {
+            const id = stack.pop()!
+            if (present(id) || failed.has(id)) continue
+            const node = source(id as CID<CIDable>)
+            if (!node || cid(node) !== id) {
+                failed.add(id)
+                unrepaired.push(id)
+                continue
+            }
+            target.put(node)
+            repaired.push(id)
+            stack.push(...TreeWalker.getChildCids(node).reverse())
+        }
+
+        return { repaired, unrepaired }
+    }
+}
+
+function getFrom(stores: ContentStore[], id: CID<any>): CIDable | undefined {
+    for (const store of stores) {
+        const node = store.get(id)
+        if (node) return node
+    }
+    return undefined
+}
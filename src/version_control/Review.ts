@@ -0,0 +1,102 @@
+import { ContentStore } from "./store/ContentStore"
+import { MergeResolutions, ThreeWayMerge } from "./ThreeWayMerge"
+import { DocumentInfo } from "./TreeWalker"
+
+/** Whether a document deleted on one side and edited on the other stays deleted */
+export type DeleteChoice = "delete" | "keep"
+
+/**
+ * A document deleted on one side and edited on the other.
+ * The side that deleted it has no entry.
+ */
+export type DeleteConflict = {
+    path: string
+    feature?: DocumentInfo
+    base?: DocumentInfo
+}
+
+/**
+ * What merging a feature branch into a base branch does to each document,
+ * as the review screen lists it
+ */
+export type ReviewCategories = {
+    added: DocumentInfo[]
+    /** previousPath is set when the feature branch renamed or moved the document */
+    modified: { feature: DocumentInfo, base: DocumentInfo, merged: boolean, previousPath?: string }[]
+    deleted: DocumentInfo[]
+    /** ancestor is the document at the merge base, matched by id */
+    conflicts: { feature: DocumentInfo, base: DocumentInfo, ancestor?: DocumentInfo, previousPath?: string }[]
+    deleteConflicts: DeleteConflict[]
+    unchanged: DocumentInfo[]
+}
+
+/**
+ * Sorting a merge's documents for review and turning review choices into
+ * merge resolutions. Kept apart from the view so it can be tested.
+ */
+export const Review = {
+    /**
+     * Categorize documents by which side changed them since the merge base
+     * @param ancestor - Documents at the merge base
+     * @param feature - Documents of the branch being merged
+     * @param base - Documents of the branch merged into
+     */
+    categorize(
+        ancestor: DocumentInfo[],
+        feature: DocumentInfo[],
+        base: DocumentInfo[],
+        store: Pick<ContentStore, "put" | "get">
+    ): ReviewCategories {
+        const categories: ReviewCategories = {
+            added: [],
+            modified: [],
+            deleted: [],
+            conflicts: [],
+            deleteConflicts: [],
+            unchanged: []
+        }
+
+        const comparisons = ThreeWayMerge.compareDocuments(ancestor, feature, base, store)
+        for (const { path, previousPath, status, base: ancestorDoc, ours, theirs } of comparisons) {
+            if (status === "deleted" && theirs) {
+                categories.deleted.push(theirs)
+            } else if (status === "conflict" && (!ours || !theirs)) {
+                categories.deleteConflicts.push({ path, feature: ours, base: theirs })
+            } else if (!ours) {
+                continue
+            } else if (status === "added" || !theirs) {
+                categories.added.push(ours)
+            } else if (status === "modified" || status === "merged") {
+                categories.modified.push({ feature: ours, base: theirs, merged: status === "merged", previousPath })
+            } else if (status === "conflict") {
+                categories.conflicts.push({ feature: ours, base: theirs, ancestor: ancestorDoc, previousPath })
+            } else {
+                categories.unchanged.push(ours)
+            }
+        }
+        return categories
+    },
+
+    /**
+     * Folders the feature branch deleted that the base branch still has
+     */
+    deletedFolders(ancestor: string[], feature: string[], base: string[]): string[] {
+        const kept = new Set(feature)
+        const onBase = new Set(base)
+        return ancestor.filter(path => !kept.has(path) && onBase.has(path))
+    },
+
+    /**
+     * Resolutions for the delete-versus-edit conflicts that have a choice:
+     * null removes the path, keeping takes the edited side
+     */
+    deleteResolutions(conflicts: DeleteConflict[], choices: Record<string, DeleteChoice>): MergeResolutions {
+        const resolutions: MergeResolutions = {}
+        for (const { path, feature, base } of conflicts) {
+            const choice = choices[path]
+            if (!choice) continue
+            resolutions[path] = choice === "delete" ? null : (feature ?? base)!.cid
+        }
+        return resolutions
+    }
+}
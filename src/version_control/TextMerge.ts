@@ -0,0 +1,115 @@
+import { CID } from "./cid"
+import { InlineNode } from "./immutable/grammar"
+import { ContentStore } from "./store/ContentStore"
+import { Diff3 } from "./Diff3"
+
+type MergeStore = Pick<ContentStore, "put" | "get">
+
+/**
+ * One character of flattened inline content, with the formatting around it
+ */
+type Token = {
+    char: string
+    /** Enclosing strong/emphasis/link nodes, outermost first, as JSON without content */
+    wrappers: string[]
+    /** "text", "code" for code spans, or the CID of an atomic inline such as an image */
+    leaf: string
+    /** Identity for diffing: a formatting change counts as a change */
+    key: string
+}
+
+/**
+ * Character-level three-way merge of text and inline content.
+ * Used by ThreeWayMerge for paragraphs, headings and code blocks.
+ */
+export const TextMerge = {
+    /**
+     * Merge plain strings; null if both sides changed the same characters
+     */
+    mergeText(base: string, ours: string, theirs: string): string | null {
+        const merged = Diff3.mergeClean(Array.from(base), Array.from(ours), Array.from(theirs))
+        return merged ? merged.join("") : null
+    },
+
+    /**
+     * Merge inline content by flattening it to characters, so edits to different
+     * parts of a paragraph merge even across formatting. Strong, emphasis and
+     * link nodes are rebuilt around the merged characters.
+     */
+    mergeInlines(
+        base: CID<InlineNode>[],
+        ours: CID<InlineNode>[],
+        theirs: CID<InlineNode>[],
+        store: MergeStore
+    ): CID<InlineNode>[] | null {
+        const merged = Diff3.mergeClean(
+            flatten(base, [], store),
+            flatten(ours, [], store),
+            flatten(theirs, [], store),
+            (a, b) => a.key === b.key
+        )
+        return merged ? build(merged, 0, store) : null
+    }
+}
+
+function flatten(cids: CID<InlineNode>[], wrappers: string[], store: MergeStore): Token[] {
+    const tokens: Token[] = []
+    const push = (char: string, leaf: string) => {
+        tokens.push({ char, wrappers, leaf, key: JSON.stringify([wrappers, leaf, char]) })
+    }
+
+    for (const id of cids) {
+        const node = store.get(id)
+        if (!node) continue
+
+        switch (node.type) {
+            case "text":
+                for (const char of node.value) push(char, "text")
+                break
+            case "code_span":
+                for (const char of node.value) push(char, "code")
+                break
+            case "strong":
+            case "emphasis":
+            case "link": {
+                const { content, ...wrapper } = node
+                tokens.push(...flatten(content, [...wrappers, JSON.stringify(wrapper)], store))
+                break
+            }
+            default:
+                push("", id)
+        }
+    }
+    return tokens
+}
+
+/**
+ * Rebuild inline nodes from tokens, grouping runs that share a wrapper at this depth
+ */
+function build(tokens: Token[], depth: number, store: MergeStore): CID<InlineNode>[] {
+    const result: CID<InlineNode>[] = []
+    let i = 0
+
+    while (i < tokens.length) {
+        const token = tokens[i]
+        const wrapper = token.wrappers[depth]
+        let j = i + 1
+
+        if (wrapper !== undefined) {
+            while (j < tokens.length && tokens[j].wrappers[depth] === wrapper) j++
+            const content = build(tokens.slice(i, j), depth + 1, store)
+            result.push(store.put({ ...JSON.parse(wrapper), content } as InlineNode))
+        } else if (token.leaf === "text" || token.leaf === "code") {
+            while (j < tokens.length && tokens[j].wrappers.length === depth && tokens[j].leaf === token.leaf) j++
+            const value = tokens.slice(i, j).map(t => t.char).join("")
+            result.push(store.put<InlineNode>(
+                token.leaf === "code" ? { type: "code_span", value } : { type: "text", value }
+            ))
+        } else {
+            result.push(token.leaf as CID<InlineNode>)
+        }
+
+        i = j
+    }
+    return result
+}
@@ -0,0 +1,632 @@
+import { CID, CIDable } from "./cid"
+import { Commit } from "./immutable/commit"
+import { BlockNode, Conflict, Directory, Document, GrammarRoot } from "./immutable/grammar"
+import { Diff3 } from "./Diff3"
+import { TextMerge } from "./TextMerge"
+import { ContentStore } from "./store/ContentStore"
+import { DocumentInfo } from "./TreeWalker"
+
+type TreeNode = Directory | Document
+type TreeCid = Directory["children"][number]
+
+/**
+ * A path both sides changed differently since the merge base.
+ * A null side means the path does not exist on that side.
+ */
+export type MergeConflict = {
+    /** Same format as TreeWalker paths; folders end with "/" */
+    path: string
+    base: TreeCid | null
+    ours: TreeCid | null
+    theirs: TreeCid | null
+}
+
+/**
+ * Chosen content for conflicting paths, by path. null removes the path.
+ */
+export type MergeResolutions = Record<string, TreeCid | null>
+
+export type MergeOptions = {
+    /** Content to use for paths that would conflict */
+    resolutions?: MergeResolutions
+    /**
+     * Keep conflicting regions of documents as conflict blocks instead of
+     * reporting the whole document as a conflict
+     */
+    conflictBlocks?: boolean
+}
+
+/**
+ * How VersionControl.merge records a merge: fast-forward moves the branch to
+ * the source head when it is strictly behind it and otherwise creates a merge
+ * commit; merge-commit always creates one; squash commits the merged content
+ * with the target as the only parent.
+ */
+export type MergeStrategy = "fast-forward" | "merge-commit" | "squash"
+
+export type MergeResult = {
+    /** Merged tree; unresolved conflicts hold our version */
+    root: CID<GrammarRoot>
+    conflicts: MergeConflict[]
+    /** Paths of documents that were merged with conflict blocks */
+    conflictedDocuments: string[]
+}
+
+/**
+ * Outcome of VersionControl.merge and cherryPick
+ */
+export type MergeOutcome = {
+    /** The new commit, or null if nothing was committed */
+    commit: CID<Commit> | null
+    /** Conflicts left without a resolution; non-empty means nothing was committed */
+    conflicts: MergeConflict[]
+    /** Paths of committed documents that still hold conflict blocks */
+    conflictedDocuments: string[]
+}
+
+/**
+ * Outcome of VersionControl.rebase and continueRebase
+ */
+export type RebaseOutcome = {
+    /** The branch's new head, or null while the rebase is paused */
+    head: CID<Commit> | null
+    /** Conflicts replaying the commit that stopped the rebase */
+    conflicts: MergeConflict[]
+    /** The commit that stopped the rebase */
+    stoppedAt: CID<Commit> | null
+}
+
+/**
+ * An aligned region of three block lists, as produced by alignBlocks
+ */
+export type BlockHunk = {
+    /** stable: unchanged; clean: changed on one side or merged; conflict: needs a choice */
+    kind: "stable" | "clean" | "conflict"
+    base: CID<BlockNode>[]
+    ours: CID<BlockNode>[]
+    theirs: CID<BlockNode>[]
+    /** The blocks this region merges to; null for a conflict */
+    merged: CID<BlockNode>[] | null
+}
+
+/**
+ * What merging would do to one of our documents, relative to the merge base
+ */
+export type DocumentComparison = {
+    path: string
+    /** Path on the merge base, if our side renamed or moved the document */
+    previousPath?: string
+    /**
+     * added: new on our side; modified: changed only on our side;
+     * deleted: our side deleted it, their side left it alone;
+     * merged: changed on both sides, merges block by block;
+     * conflict: changed on both sides in overlapping blocks, or deleted on
+     * one side and edited on the other;
+     * unchanged: our side did not change it
+     */
+    status: "added" | "modified" | "deleted" | "merged" | "conflict" | "unchanged"
+    base?: DocumentInfo
+    /** Absent if our side deleted the document */
+    ours?: DocumentInfo
+    /** Absent if their side deleted the document or never had it */
+    theirs?: DocumentInfo
+}
+
+type MergeStore = Pick<ContentStore, "put" | "get">
+
+type Side = "base" | "ours" | "theirs"
+
+/**
+ * Where a document with an id sits in one side's tree
+ */
+type DocumentLocation = {
+    cid: TreeCid
+    /** Path of the enclosing folder, ending with "/" */
+    folder: string
+    path: string
+}
+
+/**
+ * Children of a folder that are merged with each other
+ */
+type MergeEntry = {
+    /** Reported in conflicts */
+    path: string
+    /** Every path a resolution for this entry may be keyed by */
+    paths: string[]
+    base: TreeCid | null
+    ours: TreeCid | null
+    theirs: TreeCid | null
+}
+
+/**
+ * State shared by one tree merge
+ */
+type MergeContext = {
+    store: MergeStore
+    resolutions: MergeResolutions
+    conflictBlocks: boolean
+    conflicts: MergeConflict[]
+    conflictedDocuments: string[]
+    /** Documents with an id on each side, by id */
+    documents: Record<Side, Map<string, DocumentLocation>>
+    /** Folder each document with an id ends up in */
+    locations: Map<string, string>
+    /** Some document changes folder, so no folder can be taken wholesale */
+    hasMoves: boolean
+}
+
+/**
+ * Three-way merge of grammar trees against their merge base.
+ * Separated from VersionControl to keep the core minimal.
+ *
+ * Documents are matched by id, so renames and moves on one side merge with
+ * edits on the other; folders and documents without an id are matched by path.
+ * Whatever only one side changed takes that side's version (including a
+ * deletion). Folders both sides changed are merged child by child, documents
+ * block by block (see mergeBlocks); anything else both sides changed is a
+ * conflict.
+ */
+export const ThreeWayMerge = {
+    /**
+     * Merge two grammar roots against their merge base (null if unrelated)
+     */
+    mergeRoots(
+        base: CID<GrammarRoot> | null,
+        ours: CID<GrammarRoot>,
+        theirs: CID<GrammarRoot>,
+        store: MergeStore,
+        options?: MergeOptions
+    ): MergeResult {
+        const baseRoot = base ? store.get(base) : undefined
+        const oursRoot = store.get(ours)
+        const theirsRoot = store.get(theirs)
+
+        const documents = {
+            base: locateDocuments(baseRoot?.content ?? [], store),
+            ours: locateDocuments(oursRoot?.content ?? [], store),
+            theirs: locateDocuments(theirsRoot?.content ?? [], store)
+        }
+        const { locations, hasMoves } = placeDocuments(documents)
+        const context: MergeContext = {
+            store,
+            resolutions: options?.resolutions ?? {},
+            conflictBlocks: options?.conflictBlocks ?? false,
+            conflicts: [],
+            conflictedDocuments: [],
+            documents,
+            locations,
+            hasMoves
+        }
+
+        const content = mergeChildren(
+            "",
+            baseRoot?.content ?? [],
+            oursRoot?.content ?? [],
+            theirsRoot?.content ?? [],
+            context
+        ) as CID<Directory>[]
+
+        const root = store.put<GrammarRoot>({ type: "grammar_root", content })
+        return { root, conflicts: context.conflicts, conflictedDocuments: context.conflictedDocuments }
+    },
+
+    /**
+     * diff3 over block CIDs. Within a region both sides changed, blocks are
+     * paired up by type and every pair both sides changed is merged by its
+     * children (list items, list item and blockquote content) or its text
+     * (paragraphs, headings and code blocks).
+     * Returns null if some region cannot be merged.
+     * @param options.conflictBlocks - Keep such regions as conflict blocks instead
+     */
+    mergeBlocks(
+        base: CID<BlockNode>[],
+        ours: CID<BlockNode>[],
+        theirs: CID<BlockNode>[],
+        store: MergeStore,
+        options?: { conflictBlocks?: boolean }
+    ): CID<BlockNode>[] | null {
+        const merged: CID<BlockNode>[] = []
+        for (const hunk of Diff3.merge(base, ours, theirs)) {
+            if (hunk.kind !== "conflict") {
+                merged.push(...hunk.items)
+                continue
+            }
+            const region = mergeChangedBlocks(hunk.base, hunk.ours, hunk.theirs, store)
+            if (region) {
+                merged.push(...region)
+            } else if (options?.conflictBlocks) {
+                merged.push(store.put<Conflict>({
+                    type: "conflict",
+                    base: hunk.base,
+                    ours: hunk.ours,
+                    theirs: hunk.theirs
+                }))
+            } else {
+                return null
+            }
+        }
+        return merged
+    },
+
+    /**
+     * Compare our documents with theirs by id (by path for documents without
+     * one), using the merge base to tell which side changed what
+     */
+    compareDocuments(
+        base: DocumentInfo[],
+        ours: DocumentInfo[],
+        theirs: DocumentInfo[],
+        store: MergeStore
+    ): DocumentComparison[] {
+        const key = (doc: DocumentInfo) => doc.doc.id ?? `path:${doc.path}`
+        const baseByKey = new Map(base.map(doc => [key(doc), doc]))
+        const oursByKey = new Map(ours.map(doc => [key(doc), doc]))
+        const theirsByKey = new Map(theirs.map(doc => [key(doc), doc]))
+
+        const comparisons: DocumentComparison[] = []
+        for (const docKey of new Set([...oursByKey.keys(), ...baseByKey.keys()])) {
+            const baseDoc = baseByKey.get(docKey)
+            const oursDoc = oursByKey.get(docKey)
+            const theirsDoc = theirsByKey.get(docKey)
+            const previousPath = oursDoc && baseDoc && oursDoc.path !== baseDoc.path ? baseDoc.path : undefined
+            const comparison = {
+                path: (oursDoc ?? baseDoc)!.path,
+                previousPath,
+                base: baseDoc,
+                ours: oursDoc,
+                theirs: theirsDoc
+            }
+
+            if (!oursDoc) {
+                // Gone on both sides, or only theirs ever had it: nothing of ours to review
+                if (!baseDoc || !theirsDoc) continue
+                comparisons.push({ ...comparison, status: theirsDoc.cid === baseDoc.cid ? "deleted" : "conflict" })
+            } else if ((oursDoc.cid === theirsDoc?.cid && oursDoc.path === theirsDoc.path)
+                || (oursDoc.cid === baseDoc?.cid && !previousPath)) {
+                comparisons.push({ ...comparison, status: "unchanged" })
+            } else if (!theirsDoc) {
+                comparisons.push({ ...comparison, status: baseDoc ? "conflict" : "added" })
+            } else if (theirsDoc.cid === baseDoc?.cid) {
+                comparisons.push({ ...comparison, status: "modified" })
+            } else {
+                const hunks = this.alignBlocks(baseDoc?.doc.content ?? [], oursDoc.doc.content, theirsDoc.doc.content, store)
+                comparisons.push({ ...comparison, status: hunks.some(hunk => hunk.kind === "conflict") ? "conflict" : "merged" })
+            }
+        }
+        return comparisons
+    },
+
+    /**
+     * Split three block lists into aligned regions, merging every region that
+     * mergeBlocks would merge and keeping each side's blocks for display
+     */
+    alignBlocks(
+        base: CID<BlockNode>[],
+        ours: CID<BlockNode>[],
+        theirs: CID<BlockNode>[],
+        store: MergeStore
+    ): BlockHunk[] {
+        const same = (a: CID<BlockNode>[], b: CID<BlockNode>[]) => a.length === b.length && a.every((id, i) => id === b[i])
+
+        return Diff3.align(base, ours, theirs).map((chunk): BlockHunk => {
+            if (chunk.stable) return { kind: "stable", ...chunk, merged: chunk.base }
+
+            const merged = same(chunk.ours, chunk.theirs) || same(chunk.base, chunk.theirs) ? chunk.ours
+                : same(chunk.base, chunk.ours) ? chunk.theirs
+                : mergeChangedBlocks(chunk.base, chunk.ours, chunk.theirs, store)
+            return { kind: merged ? "clean" : "conflict", ...chunk, merged }
+        })
+    }
+}
+
+function mergeChildren(
+    prefix: string,
+    base: TreeCid[],
+    ours: TreeCid[],
+    theirs: TreeCid[],
+    context: MergeContext
+): TreeCid[] {
+    const entries = childEntries(prefix, { base, ours, theirs }, context)
+
+    const merged: TreeCid[] = []
+    for (const { path, paths, base: b, ours: o, theirs: t } of entries) {
+        const resolved = paths.find(p => p in context.resolutions)
+
+        let result: TreeCid | null
+        if (resolved !== undefined) {
+            result = context.resolutions[resolved]
+        } else if (o === t) {
+            result = o
+        } else if (context.hasMoves && isFolder(o ?? t, context.store)) {
+            // Documents may have moved in or out, so merge the folder's contents
+            result = mergeChanged(path, b, o, t, context)
+        } else if (o === b) {
+            result = t
+        } else if (t === b) {
+            result = o
+        } else {
+            result = mergeChanged(path, b, o, t, context)
+        }
+
+        if (result) merged.push(result)
+    }
+    return merged
+}
+
+/**
+ * Both sides changed the path, in different ways
+ */
+function mergeChanged(
+    path: string,
+    base: TreeCid | null,
+    ours: TreeCid | null,
+    theirs: TreeCid | null,
+    context: MergeContext
+): TreeCid | null {
+    const { store } = context
+    const oursNode = getNode(ours, store)
+    const theirsNode = getNode(theirs, store)
+
+    // A folder one side deleted is merged as if emptied, so that only the
+    // documents the other side changed inside it conflict
+    const folder = oursNode ?? theirsNode
+    if (folder?.type === "folder" && oursNode?.type !== "document" && theirsNode?.type !== "document") {
+        const baseNode = getNode(base, store)
+        const children = mergeChildren(
+            path,
+            baseNode?.type === "folder" ? baseNode.children : [],
+            oursNode?.type === "folder" ? oursNode.children : [],
+            theirsNode?.type === "folder" ? theirsNode.children : [],
+            context
+        )
+        if (base && (!oursNode || !theirsNode) && children.length === 0) return null
+        return store.put<Directory>({ ...folder, children })
+    }
+
+    if (oursNode?.type === "document" && theirsNode?.type === "document") {
+        const baseNode = getNode(base, store)
+        const content = ThreeWayMerge.mergeBlocks(
+            baseNode?.type === "document" ? baseNode.content : [],
+            oursNode.content,
+            theirsNode.content,
+            store,
+            { conflictBlocks: context.conflictBlocks }
+        )
+        // Names merge like values, so a rename on one side survives edits on the
+        // other; two different renames conflict like two different edits
+        const name = mergeValue(baseNode?.type === "document" ? baseNode.name : undefined, oursNode.name, theirsNode.name)
+        if (content && name !== undefined) {
+            if (content.some(id => store.get(id)?.type === "conflict")) {
+                context.conflictedDocuments.push(path)
+            }
+            return store.put<Document>({ ...oursNode, name, content })
+        }
+    }
+
+    context.conflicts.push({ path, base, ours, theirs })
+    return ours
+}
+
+/**
+ * Pair up a folder's children across the three sides. Documents with an id are
+ * paired by id, wherever each side keeps them, and merged in the folder the
+ * merge places them in (see placeDocuments). Everything else is paired by
+ * path; repeated names get a "#n" suffix so that neither copy is lost.
+ * Our order first, then whatever only they have.
+ */
+function childEntries(prefix: string, children: Record<Side, TreeCid[]>, context: MergeContext): MergeEntry[] {
+    const entries = new Map<string, MergeEntry>()
+
+    for (const side of ["ours", "theirs", "base"] as const) {
+        const seen = new Set<string>()
+        for (const childCid of children[side]) {
+            const child = getNode(childCid, context.store)
+            if (!child) continue
+
+            const docId = child.type === "document" ? child.id : undefined
+            if (docId && context.documents[side].get(docId)?.cid === childCid
+                && context.documents[side].get(docId)?.folder === prefix) {
+                if (context.locations.get(docId) !== prefix || entries.has(`#${docId}`)) continue
+                entries.set(`#${docId}`, documentEntry(docId, prefix, context))
+                continue
+            }
+
+            const path = child.type === "folder"
+                ? `${prefix}${child.name}/`
+                : `${prefix}${child.name || "Untitled"}`
+            let key = path
+            for (let n = 2; seen.has(key); n++) {
+                key = `${path}#${n}`
+            }
+            seen.add(key)
+
+            const entry = entries.get(key) ?? { path: key, paths: [key], base: null, ours: null, theirs: null }
+            entry[side] = childCid
+            entries.set(key, entry)
+        }
+    }
+    return [...entries.values()]
+}
+
+/**
+ * Entry for a document with an id, taken from wherever each side keeps it
+ */
+function documentEntry(docId: string, folder: string, context: MergeContext): MergeEntry {
+    const { base, ours, theirs } = context.documents
+    const located = [ours.get(docId), theirs.get(docId), base.get(docId)]
+    const name = (getNode(located.find(Boolean)!.cid, context.store) as Document).name
+    const path = `${folder}${name || "Untitled"}`
+
+    return {
+        path,
+        paths: [...new Set([path, ...located.filter(Boolean).map(l => l!.path)])],
+        base: base.get(docId)?.cid ?? null,
+        ours: ours.get(docId)?.cid ?? null,
+        theirs: theirs.get(docId)?.cid ?? null
+    }
+}
+
+/**
+ * Find every document with an id in a tree. A repeated id after the first is
+ * treated as a document without one.
+ */
+function locateDocuments(content: TreeCid[], store: MergeStore): Map<string, DocumentLocation> {
+    const located = new Map<string, DocumentLocation>()
+
+    const walk = (children: TreeCid[], folder: string) => {
+        for (const childCid of children) {
+            const child = getNode(childCid, store)
+            if (child?.type === "folder") {
+                walk(child.children, `${folder}${child.name}/`)
+            } else if (child?.id && !located.has(child.id)) {
+                located.set(child.id, { cid: childCid, folder, path: `${folder}${child.name || "Untitled"}` })
+            }
+        }
+    }
+
+    walk(content, "")
+    return located
+}
+
+/**
+ * Decide which folder each document ends up in: where one side moved it, or
+ * where ours has it if both sides moved it
+ */
+function placeDocuments(documents: Record<Side, Map<string, DocumentLocation>>): {
+    locations: Map<string, string>
+    hasMoves: boolean
+} {
+    const locations = new Map<string, string>()
+    let hasMoves = false
+
+    for (const docId of new Set([...documents.ours.keys(), ...documents.theirs.keys()])) {
+        const b = documents.base.get(docId)?.folder
+        const o = documents.ours.get(docId)?.folder
+        const t = documents.theirs.get(docId)?.folder
+
+        const location = o === undefined ? t! : t === undefined || o !== b ? o : t
+        locations.set(docId, location)
+        if ([b, o, t].some(folder => folder !== undefined && folder !== location)) hasMoves = true
+    }
+    return { locations, hasMoves }
+}
+
+function isFolder(id: TreeCid | null, store: MergeStore): boolean {
+    return getNode(id, store)?.type === "folder"
+}
+
+function getNode(id: TreeCid | null, store: MergeStore): TreeNode | undefined {
+    return id ? store.get(id as CID<CIDable>) as TreeNode | undefined : undefined
+}
+
+/**
+ * Merge a region of blocks both sides changed. Blocks of the same type that
+ * stay in place are treated as edits of each other; the rest must only have
+ * been changed on one side.
+ */
+function mergeChangedBlocks(
+    base: CID<BlockNode>[],
+    ours: CID<BlockNode>[],
+    theirs: CID<BlockNode>[],
+    store: MergeStore
+): CID<BlockNode>[] | null {
+    const sameType = (a: CID<BlockNode>, b: CID<BlockNode>) => store.get(a)?.type === store.get(b)?.type
+    const merged: CID<BlockNode>[] = []
+
+    for (const chunk of Diff3.align(base, ours, theirs, sameType)) {
+        if (!chunk.stable) {
+            const items = Diff3.mergeClean(chunk.base, chunk.ours, chunk.theirs)
+            if (!items) return null
+            merged.push(...items)
+            continue
+        }
+        for (let i = 0; i < chunk.base.length; i++) {
+            const block = mergeValue(chunk.base[i], chunk.ours[i], chunk.theirs[i])
+                ?? mergeBlock(chunk.base[i], chunk.ours[i], chunk.theirs[i], store)
+            if (!block) return null
+            merged.push(block)
+        }
+    }
+    return merged
+}
+
+/**
+ * Merge one block both sides changed: container blocks by their children,
+ * text blocks character by character
+ */
+function mergeBlock(
+    base: CID<BlockNode>,
+    ours: CID<BlockNode>,
+    theirs: CID<BlockNode>,
+    store: MergeStore
+): CID<BlockNode> | null {
+    const baseNode = store.get(base)
+    const oursNode = store.get(ours)
+    const theirsNode = store.get(theirs)
+    if (!baseNode || !oursNode || !theirsNode) return null
+    if (oursNode.type !== baseNode.type || theirsNode.type !== baseNode.type) return null
+
+    switch (baseNode.type) {
+        case "list": {
+            const o = oursNode as typeof baseNode
+            const t = theirsNode as typeof baseNode
+            const ordered = mergeValue(baseNode.ordered, o.ordered, t.ordered)
+            const items = ThreeWayMerge.mergeBlocks(baseNode.items, o.items, t.items, store)
+            if (ordered === undefined || !items) return null
+            return store.put({ ...baseNode, ordered, items: items as typeof baseNode.items })
+        }
+        case "list_item":
+        case "blockquote": {
+            const content = ThreeWayMerge.mergeBlocks(
+                baseNode.content,
+                (oursNode as typeof baseNode).content,
+                (theirsNode as typeof baseNode).content,
+                store
+            )
+            if (!content) return null
+            return store.put({ ...baseNode, content })
+        }
+        case "paragraph": {
+            const content = TextMerge.mergeInlines(
+                baseNode.content,
+                (oursNode as typeof baseNode).content,
+                (theirsNode as typeof baseNode).content,
+                store
+            )
+            if (!content) return null
+            return store.put({ ...baseNode, content })
+        }
+        case "heading": {
+            const o = oursNode as typeof baseNode
+            const t = theirsNode as typeof baseNode
+            const level = mergeValue(baseNode.level, o.level, t.level)
+            const content = TextMerge.mergeInlines(baseNode.content, o.content, t.content, store)
+            if (level === undefined || !content) return null
+            return store.put({ ...baseNode, level, content })
+        }
+        case "code_block": {
+            const o = oursNode as typeof baseNode
+            const t = theirsNode as typeof baseNode
+            // language may legitimately be undefined, so mergeValue cannot signal a conflict
+            if (o.language !== t.language && o.language !== baseNode.language && t.language !== baseNode.language) {
+                return null
+            }
+            const language = o.language === baseNode.language ? t.language : o.language
+            const value = TextMerge.mergeText(baseNode.value, o.value, t.value)
+            if (value === null) return null
+            return store.put({ ...baseNode, language, value })
+        }
+        default:
+            return null
+    }
+}
+
+/**
+ * Three-way merge of a plain value; undefined if both sides changed it differently
+ */
+function mergeValue<T>(base: T, ours: T, theirs: T): T | undefined {
+    if (ours === theirs || theirs === base) return ours
+    if (ours === base) return theirs
+    return undefined
+}
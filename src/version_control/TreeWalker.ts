@@ -1,10 +1,9 @@
-import { CID, CIDable } from "./cid"
-import { Directory, Document, GrammarRoot } from "./immutable/grammar"
+import { CID, CIDable, isCID } from "./cid"
+import { Conflict, Directory, Document, GrammarRoot } from "./immutable/grammar"
+import { Path, Paths } from "./path"
+import { Resolver } from "./store/ContentStore"
 
-/**
- * Resolver function type - abstracts away the storage implementation
- */
-export type Resolver = <T extends CIDable>(id: CID<T>) => T | undefined
+export type { Resolver }
 
 /**
  * Document info returned by tree walking
@@ -13,6 +12,8 @@ export type DocumentInfo = {
     cid: CID<Document>
     doc: Document
     path: string
+    /** Where the document sits in the tree; tells apart documents with identical content */
+    location: Path<Document>
 }
 
 /**
@@ -29,24 +30,61 @@ export const TreeWalker = {
 
         const docs: DocumentInfo[] = []
         
-        const walkDirectory = (dirCid: CID<Directory>, pathPrefix: string) => {
+        const walkDirectory = (dirCid: CID<Directory>, pathPrefix: string, location: Path<Directory>) => {
             const dir = resolve(dirCid) as Directory | undefined
             if (!dir) return
 
-            for (const childCid of dir.children) {
+            dir.children.forEach((childCid, index) => {
                 const child = resolve(childCid as CID<CIDable>)
-                if (!child) continue
+                if (!child) return
 
                 if (child.type === 'folder') {
-                    walkDirectory(childCid as CID<Directory>, `${pathPrefix}${(child as Directory).name}/`)
+                    walkDirectory(
+                        childCid as CID<Directory>,
+                        `${pathPrefix}${(child as Directory).name}/`,
+                        Paths.child(location, "children", index)
+                    )
                 } else if (child.type === 'document') {
                     const doc = child as Document
                     docs.push({
                         cid: childCid as CID<Document>,
                         doc,
-                        path: `${pathPrefix}${doc.name || 'Untitled'}`
+                        path: `${pathPrefix}${doc.name || 'Untitled'}`,
+                        location: Paths.child(location, "children", index)
                     })
                 }
+            })
+        }
+
+        root.content.forEach((dirCid, index) => {
+            const dir = resolve(dirCid) as Directory | undefined
+            if (dir) {
+                walkDirectory(dirCid, `${dir.name}/`, Paths.of(["content", index]))
+            }
+        })
+
+        return docs
+    },
+
+    /**
+     * Get the paths of all folders, ending with "/" like the prefixes of document paths
+     */
+    getFolderPaths(rootCid: CID<GrammarRoot>, resolve: Resolver): string[] {
+        const root = resolve(rootCid) as GrammarRoot | undefined
+        if (!root) return []
+
+        const paths: string[] = []
+
+        const walkDirectory = (dirCid: CID<Directory>, path: string) => {
+            const dir = resolve(dirCid) as Directory | undefined
+            if (!dir) return
+            paths.push(path)
+
+            for (const childCid of dir.children) {
+                const child = resolve(childCid as CID<CIDable>)
+                if (child?.type === 'folder') {
+                    walkDirectory(childCid as CID<Directory>, `${path}${(child as Directory).name}/`)
+                }
             }
         }
 
@@ -57,7 +95,16 @@ export const TreeWalker = {
             }
         }
 
-        return docs
+        return paths
+    },
+
+    /**
+     * Find the same document in another tree's documents: by id, so renames and
+     * moves are followed, or by path for documents without one
+     */
+    findSameDocument(docs: DocumentInfo[], target: DocumentInfo): DocumentInfo | undefined {
+        const id = target.doc.id
+        return (id ? docs.find(d => d.doc.id === id) : undefined) ?? docs.find(d => d.path === target.path)
     },
 
     /**
@@ -81,16 +128,8 @@ export const TreeWalker = {
             const node = resolve(cid as CID<CIDable>)
             if (!node) return
 
-            for (const value of Object.values(node)) {
-                if (isCID(value)) {
-                    walk(value)
-                } else if (Array.isArray(value)) {
-                    for (const item of value) {
-                        if (isCID(item)) {
-                            walk(item)
-                        }
-                    }
-                }
+            for (const child of this.getChildCids(node)) {
+                walk(child)
             }
         }
 
@@ -98,6 +137,38 @@ export const TreeWalker = {
         return collected
     },
 
+    /**
+     * Get the CIDs a node references directly, in field order
+     */
+    getChildCids(node: CIDable): CID<any>[] {
+        const children: CID<any>[] = []
+        for (const value of Object.values(node)) {
+            if (isCID(value)) {
+                children.push(value)
+            } else if (Array.isArray(value)) {
+                for (const item of value) {
+                    if (isCID(item)) {
+                        children.push(item)
+                    }
+                }
+            }
+        }
+        return children
+    },
+
+    /**
+     * Find every unresolved conflict block below a root
+     */
+    findConflictBlocks(rootCid: CID<any>, resolve: Resolver): CID<Conflict>[] {
+        const conflicts: CID<Conflict>[] = []
+        for (const id of this.collectAllCids(rootCid, resolve)) {
+            if (resolve(id as CID<CIDable>)?.type === "conflict") {
+                conflicts.push(id as CID<Conflict>)
+            }
+        }
+        return conflicts
+    },
+
     /**
      * Collect only leaf CIDs (nodes without CID children)
      */
@@ -135,11 +206,3 @@ export const TreeWalker = {
         return collected
     }
 }
-
-/**
- * Check if a value looks like a CID (64-char hex string)
- */
-function isCID(value: any): value is CID<any> {
-    return typeof value === 'string' && value.length === 64 && /^[0-9a-f]+$/.test(value)
-}
-
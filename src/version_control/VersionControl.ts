@@ -1,39 +1,34 @@
+import { Addresses } from "./Addresses"
 import { cid, CID, CIDable } from "./cid"
 import { Commit } from "./immutable/commit";
 import { GrammarRoot } from "./immutable/grammar";
+import { Tag } from "./immutable/tag"
+import { Bundle, BundleFormat, BundleImportReport } from "./Bundle"
+import { GarbageCollectionReport, GarbageCollector } from "./GarbageCollector"
+import { HistoryView } from "./HistoryView"
+import { IntegrityCheck, IntegrityReport, RepairReport } from "./IntegrityCheck"
+import { Address } from "./mutable/address"
 import { Branch } from "./mutable/branch"
+import { RebaseRecord, RebaseState } from "./mutable/rebase"
+import { RepositoryRefs } from "./mutable/refs"
+import { ContentStore, RepositoryStorage, Resolver } from "./store/ContentStore"
+import { MemoryStore } from "./store/MemoryStore"
+import { Negotiation } from "./remote/Negotiation"
+import { Path, Paths } from "./path"
+import { BranchUpdateRequest } from "./remote/protocol"
+import { Remote, TrackingStatus } from "./remote/Remote"
+import { MergeOptions, MergeOutcome, MergeResolutions, MergeStrategy, RebaseOutcome, ThreeWayMerge } from "./ThreeWayMerge"
+import { TreeWalker } from "./TreeWalker"
 import { v4 as uuidv4 } from 'uuid';
 
 
-/**
- * Simple content-addressed key-value store
- */
-class KVStore {
-    private store: Map<string, CIDable> = new Map()
-
-    put<T extends CIDable>(node: T): CID<T> {
-        const id = cid(node)
-        this.store.set(id, node)
-        return id
-    }
-
-    get<T extends CIDable>(id: CID<T>): T | undefined {
-        return this.store.get(id) as T | undefined
-    }
-
-    has(id: CID<any>): boolean {
-        return this.store.has(id)
-    }
-
-    clear(): void {
-        this.store.clear()
-    }
-
-    transferTo(target: KVStore): void {
-        for (const [id, value] of this.store.entries()) {
-            target.store.set(id, value)
-    }
-    }
+type VersionControlOptions = {
+    sourceOfTruth?: ContentStore
+    workInProgress?: ContentStore
+    /** Previously saved refs to restore instead of creating an initial commit */
+    refs?: RepositoryRefs
+    /** Called whenever branches or the working root change */
+    onRefsChange?: (refs: RepositoryRefs) => void
 }
 
 
@@ -45,24 +40,54 @@ class KVStore {
  * - Branch management (create/checkout/list)
  * - Commit management (commit/isDirty)
  * - Working state management
- * - Merge
+ * - Merge, cherry-pick, revert and rebase
+ * - Addresses that follow nodes across versions
+ * - Annotated tags naming release snapshots
  * 
  * Higher-level concerns (tree walking, history visualization) 
  * should be handled by separate utilities.
  */
 class VersionControl {
-    private sourceOfTruth: KVStore
-    private workInProgress: KVStore
+    private sourceOfTruth: ContentStore
+    private workInProgress: ContentStore
     private branches: Branch[]
     private archivedBranches: Branch[]
+    private remoteBranches: Record<string, Branch[]>
     private defaultBranch: Branch
     private currentBranch: Branch
     private workingRootCid: CID<GrammarRoot>
+    private addresses: Address<any>[]
+    private rebaseState: RebaseState | null
+    private lastRebase: RebaseRecord | null
+    private tags: Record<string, CID<Tag>>
+    private onRefsChange?: (refs: RepositoryRefs) => void
+
+    constructor(options?: VersionControlOptions) {
+        this.sourceOfTruth = options?.sourceOfTruth ?? new MemoryStore()
+        this.workInProgress = options?.workInProgress ?? new MemoryStore()
+        this.onRefsChange = options?.onRefsChange
+
+        if (options?.refs) {
+            const refs = options.refs
+            this.branches = refs.branches
+            this.archivedBranches = refs.archivedBranches
+            this.remoteBranches = refs.remoteBranches ?? {}
+            this.defaultBranch = refs.branches.find(b => b.uuid === refs.defaultBranch)!
+            this.currentBranch = refs.branches.find(b => b.uuid === refs.currentBranch) ?? this.defaultBranch
+            this.workingRootCid = refs.workingRoot
+            this.addresses = refs.addresses ?? []
+            this.rebaseState = refs.rebase ?? null
+            this.lastRebase = refs.lastRebase ?? null
+            this.tags = refs.tags ?? {}
+            return
+        }
 
-    constructor() {
-        this.sourceOfTruth = new KVStore()
-        this.workInProgress = new KVStore()
         this.archivedBranches = []
+        this.remoteBranches = {}
+        this.addresses = []
+        this.rebaseState = null
+        this.lastRebase = null
+        this.tags = {}
 
         const initialGrammarRoot: GrammarRoot = {
             type: "grammar_root",
@@ -92,6 +117,19 @@ class VersionControl {
         this.branches = [defaultBranch]
         this.currentBranch = defaultBranch
         this.workingRootCid = initialRootCid
+        this.refsChanged()
+    }
+
+    /**
+     * Open a persisted repository, creating the initial commit if it is empty
+     */
+    static async open(storage: RepositoryStorage): Promise<VersionControl> {
+        return new VersionControl({
+            sourceOfTruth: storage.objects,
+            workInProgress: storage.workInProgress,
+            refs: await storage.loadRefs(),
+            onRefsChange: (refs) => storage.saveRefs(refs)
+        })
     }
 
     // =========================================================================
@@ -128,6 +166,7 @@ class VersionControl {
      */
     setWorkingRoot(cid: CID<GrammarRoot>): void {
         this.workingRootCid = cid
+        this.refsChanged()
     }
 
     /**
@@ -135,6 +174,25 @@ class VersionControl {
      */
     setRoot(root: GrammarRoot): void {
         this.workingRootCid = this.workInProgress.put(root)
+        this.refsChanged()
+    }
+
+    /**
+     * Snapshot of all refs, suitable for persisting and passing back to the constructor
+     */
+    getRefs(): RepositoryRefs {
+        return {
+            branches: this.branches,
+            archivedBranches: this.archivedBranches,
+            defaultBranch: this.defaultBranch.uuid,
+            currentBranch: this.currentBranch.uuid,
+            workingRoot: this.workingRootCid,
+            remoteBranches: this.remoteBranches,
+            addresses: this.addresses,
+            rebase: this.rebaseState ?? undefined,
+            lastRebase: this.lastRebase ?? undefined,
+            tags: this.tags
+        }
     }
 
     // =========================================================================
@@ -179,13 +237,14 @@ class VersionControl {
         name: string, 
         options?: { fromCommit?: CID<Commit>, carryWorkingState?: boolean }
     ): Branch {
+        this.assertNoRebase("create a branch")
         const fromCommit = options?.fromCommit ?? this.currentBranch.commit
 
         if (options?.carryWorkingState) {
-        // Transfer work-in-progress to source of truth so it persists
-        this.workInProgress.transferTo(this.sourceOfTruth)
-        const currentWorkingRoot = this.workingRootCid
-        
+            // Transfer work-in-progress to source of truth so it persists
+            this.transferWorkInProgress()
+            const currentWorkingRoot = this.workingRootCid
+
             const newBranch: Branch = {
                 uuid: uuidv4(),
                 name,
@@ -197,6 +256,7 @@ class VersionControl {
             this.workInProgress.clear()
             this.currentBranch = newBranch
             this.workingRootCid = currentWorkingRoot
+            this.refsChanged()
             
             return newBranch
         }
@@ -207,18 +267,29 @@ class VersionControl {
             commit: fromCommit
         }
         this.branches.push(newBranch)
+        this.refsChanged()
         return newBranch
     }
 
+    /**
+     * Rename a branch
+     */
+    renameBranch(branch: Branch, name: string): void {
+        branch.name = name
+        this.refsChanged()
+    }
+
     /**
      * Switch to a different branch
      */
     checkout(branch: Branch): void {
+        this.assertNoRebase("switch branches")
         this.workInProgress.clear()
         this.currentBranch = branch
 
         const commit = this.resolve(branch.commit)!
         this.workingRootCid = commit.content
+        this.refsChanged()
     }
 
     /**
@@ -229,6 +300,7 @@ class VersionControl {
         if (idx !== -1 && branch.name !== "default") {
             this.branches.splice(idx, 1)
             this.archivedBranches.push(branch)
+            this.refsChanged()
         }
     }
 
@@ -237,11 +309,17 @@ class VersionControl {
     // =========================================================================
 
     /**
-     * Create a commit with the current working state
+     * Create a commit with the current working state.
+     * The default branch does not accept commits with unresolved conflict blocks.
      */
     commit(message: string, author: string): CID<Commit> {
+        this.assertNoRebase("commit")
+        if (this.currentBranch.uuid === this.defaultBranch.uuid && this.hasConflictBlocks()) {
+            throw new Error(`Resolve all conflicts before committing to '${this.currentBranch.name}'`)
+        }
+
         // Transfer all work-in-progress to source of truth
-        this.workInProgress.transferTo(this.sourceOfTruth)
+        this.transferWorkInProgress()
         this.workInProgress.clear()
 
         const newCommit: Commit = {
@@ -255,6 +333,8 @@ class VersionControl {
 
         const commitCid = this.sourceOfTruth.put(newCommit)
         this.currentBranch.commit = commitCid
+        this.reanchorAddresses()
+        this.refsChanged()
 
         return commitCid
     }
@@ -267,207 +347,936 @@ class VersionControl {
         return commit.content !== this.workingRootCid
     }
 
+    /**
+     * Check if the working state still holds unresolved conflict blocks
+     */
+    hasConflictBlocks(): boolean {
+        return TreeWalker.findConflictBlocks(this.workingRootCid, (id) => this.resolve(id)).length > 0
+    }
+
     // =========================================================================
     // Merge
     // =========================================================================
 
     /**
      * Merge sourceBranch INTO the current branch.
-     * Creates a merge commit that combines content from both branches.
+     * Three-way merge against the branches' common ancestor: whatever only one
+     * side changed is taken from that side. Paths both sides changed differently
+     * are returned as conflicts, and unless every one of them has a resolution
+     * nothing is committed.
+     * @param options.resolutions - Content to use for conflicting paths. It may
+     *   be work in progress; it is stored for good before anything is committed.
+     * @param options.conflictBlocks - Commit conflicting document regions as
+     *   conflict blocks to resolve later. Ignored when merging into the default
+     *   branch, which never takes conflict blocks.
+     * @param options.strategy - How the merge is recorded; merge-commit by default
+     * @param options.into - Merge into this branch instead of the current one,
+     *   leaving the working state alone
      */
-    merge(sourceBranch: Branch): void {
-        if (sourceBranch.uuid === this.currentBranch.uuid) return
-        if (this.currentBranch.commit === sourceBranch.commit) return
+    merge(sourceBranch: Branch, options?: MergeOptions & { strategy?: MergeStrategy, into?: Branch }): MergeOutcome {
+        this.assertNoRebase("merge")
+        const resolve = (id: CID<any>) => this.resolve(id)
+        const target = options?.into ?? this.currentBranch
+        if (sourceBranch.uuid === target.uuid
+            || HistoryView.isAncestor(sourceBranch.commit, target.commit, resolve)) {
+            return { commit: null, conflicts: [], conflictedDocuments: [] }
+        }
+        const intoDefault = target.uuid === this.defaultBranch.uuid
+        const strategy = options?.strategy ?? "merge-commit"
+
+        if (strategy === "fast-forward"
+            && HistoryView.isAncestor(target.commit, sourceBranch.commit, resolve)) {
+            const sourceContent = this.resolve(sourceBranch.commit)!.content
+            if (intoDefault && TreeWalker.findConflictBlocks(sourceContent, resolve).length > 0) {
+                throw new Error(`'${sourceBranch.name}' has unresolved conflicts; resolve them before merging into '${target.name}'`)
+            }
+            target.commit = sourceBranch.commit
+            this.branchMoved(target)
+            return { commit: sourceBranch.commit, conflicts: [], conflictedDocuments: [] }
+        }
 
-        const currentCommit = this.resolve(this.currentBranch.commit)!
+        this.persistResolutions(options?.resolutions)
+        const targetCommit = this.resolve(target.commit)!
         const sourceCommit = this.resolve(sourceBranch.commit)!
+        const baseCid = HistoryView.findCommonAncestor(target, sourceBranch, resolve)
+        const baseCommit = baseCid ? this.resolve(baseCid) : undefined
 
-        const mergedContent = this.mergeGrammarRoots(currentCommit.content, sourceCommit.content)
+        const { root: mergedContent, conflicts, conflictedDocuments } = ThreeWayMerge.mergeRoots(
+            baseCommit?.content ?? null,
+            targetCommit.content,
+            sourceCommit.content,
+            { put: (node) => this.sourceOfTruth.put(node), get: resolve },
+            { ...options, conflictBlocks: options?.conflictBlocks && !intoDefault }
+        )
+        if (conflicts.length > 0) {
+            return { commit: null, conflicts, conflictedDocuments: [] }
+        }
+        if (intoDefault && TreeWalker.findConflictBlocks(mergedContent, resolve).length > 0) {
+            throw new Error(`'${sourceBranch.name}' has unresolved conflicts; resolve them before merging into '${target.name}'`)
+        }
 
-        const mergeCommit: Commit = {
+        const mergeCommit: Commit = strategy === "squash" ? {
+            type: "commit",
+            parents: [target.commit],
+            content: mergedContent,
+            author: "merge",
+            timestamp: new Date().toISOString(),
+            message: this.squashMessage(sourceBranch, target)
+        } : {
             type: "commit",
-            parents: [this.currentBranch.commit, sourceBranch.commit],
+            parents: [target.commit, sourceBranch.commit],
             content: mergedContent,
             author: "merge",
             timestamp: new Date().toISOString(),
-            message: `Merge '${sourceBranch.name}' into '${this.currentBranch.name}'`
+            message: `Merge '${sourceBranch.name}' into '${target.name}'`
         }
 
         const mergeCid = this.sourceOfTruth.put(mergeCommit)
-        this.currentBranch.commit = mergeCid
-        this.workingRootCid = mergedContent
-        this.workInProgress.clear()
+        target.commit = mergeCid
+        this.branchMoved(target)
+        return { commit: mergeCid, conflicts: [], conflictedDocuments }
+    }
+
+    /**
+     * Apply one commit's changes, taken against its first parent, to the
+     * working root and commit the result on the current branch with a single
+     * parent. Conflicts and options work as in merge. The origin is recorded
+     * in the message rather than as a CID, so it does not pull the origin's
+     * history into bundles and pushes of this branch.
+     */
+    cherryPick(commitCid: CID<Commit>, options?: MergeOptions): MergeOutcome {
+        const picked = this.resolve(commitCid)
+        if (!picked) {
+            throw new Error(`Commit ${commitCid} not found`)
+        }
+        const parent = picked.parents[0] ? this.resolve(picked.parents[0]) : undefined
+
+        return this.applyChange(
+            parent?.content ?? null,
+            picked.content,
+            `${picked.message}\n\n(cherry picked from commit ${commitCid})`,
+            picked.author,
+            options
+        )
+    }
+
+    /**
+     * Undo one commit's changes on the current branch with a new commit,
+     * without rewriting history. Conflicts and options work as in merge.
+     * @param options.mainline - For a merge commit, the index of the parent
+     *   whose side is kept; the changes merged in from the others are undone
+     */
+    revert(commitCid: CID<Commit>, author: string, options?: MergeOptions & { mainline?: number }): MergeOutcome {
+        const reverted = this.resolve(commitCid)
+        if (!reverted) {
+            throw new Error(`Commit ${commitCid} not found`)
+        }
+        const isMerge = reverted.parents.length > 1
+        if (isMerge && options?.mainline === undefined) {
+            throw new Error(`${commitCid.slice(0, 7)} is a merge commit; choose the parent to keep`)
+        }
+        const parentCid = reverted.parents[options?.mainline ?? 0]
+        if (reverted.parents.length > 0 && !parentCid) {
+            throw new Error(`${commitCid.slice(0, 7)} has no parent ${options?.mainline}`)
+        }
+        const parent = parentCid ? this.resolve(parentCid) : undefined
+        const emptyRoot = this.workInProgress.put<GrammarRoot>({ type: "grammar_root", content: [] })
+
+        const reason = isMerge
+            ? `This reverts commit ${commitCid},\nreversing changes made to ${parentCid}.`
+            : `This reverts commit ${commitCid}.`
+        return this.applyChange(
+            reverted.content,
+            parent?.content ?? emptyRoot,
+            `Revert "${reverted.message}"\n\n${reason}`,
+            author,
+            options
+        )
     }
 
     // =========================================================================
-    // Tree Mutation Helpers
+    // Rebase
     // =========================================================================
 
     /**
-     * Update a node by its old CID, replacing references throughout the tree
+     * Replay the current branch's commits since it left onto's history on top
+     * of onto's head, as new single-parent commits. Merge commits replay their
+     * change against the first parent; commits whose change is already there
+     * are dropped. Stops on the first conflict, to be finished with
+     * continueRebase or undone with abortRebase.
+     * @param options.conflictBlocks - Replay conflicting document regions as
+     *   conflict blocks instead of stopping
      */
-    updateNode<T extends CIDable>(oldCid: CID<T>, newNode: T): CID<T> {
-        const newCid = this.workInProgress.put(newNode)
-        
-        const root = this.resolve(this.workingRootCid)
-        if (root) {
-            const newRoot = this.replaceInTree(root, oldCid, newCid) as GrammarRoot
-            this.workingRootCid = this.workInProgress.put(newRoot)
+    rebase(onto: Branch, options?: Pick<MergeOptions, "conflictBlocks">): RebaseOutcome {
+        if (this.rebaseState) {
+            throw new Error("A rebase is already in progress; continue or abort it first")
         }
-        
-        return newCid
+        if (this.currentBranch.uuid === this.defaultBranch.uuid) {
+            throw new Error(`'${this.currentBranch.name}' is shared history and cannot be rebased`)
+        }
+        if (this.isDirty()) {
+            throw new Error("Commit your changes before rebasing")
+        }
+
+        const resolve = (id: CID<any>) => this.resolve(id)
+        return this.replayCommits({
+            branch: this.currentBranch.uuid,
+            onto: onto.commit,
+            originalHead: this.currentBranch.commit,
+            head: onto.commit,
+            remaining: HistoryView.commitsSince(this.currentBranch.commit, onto.commit, resolve)
+        }, options)
+    }
+
+    /**
+     * Resume a paused rebase, replaying the commit that stopped it with these options
+     */
+    continueRebase(options?: MergeOptions): RebaseOutcome {
+        if (!this.rebaseState) {
+            throw new Error("No rebase in progress")
+        }
+        const branch = this.branches.find(b => b.uuid === this.rebaseState!.branch)
+        if (branch?.commit !== this.rebaseState.originalHead) {
+            // Finishing would drop whatever moved the branch
+            this.abortRebase()
+            throw new Error("The branch moved while the rebase was paused; the rebase was aborted")
+        }
+        this.persistResolutions(options?.resolutions)
+        return this.replayCommits(this.rebaseState, options)
+    }
+
+    /**
+     * Give up a paused rebase; the branch never left its original head
+     */
+    abortRebase(): void {
+        this.rebaseState = null
+        this.refsChanged()
+    }
+
+    getRebaseState(): RebaseState | null {
+        return this.rebaseState
+    }
+
+    /**
+     * Whether a branch's last rebase can be undone: it has not moved since
+     */
+    canUndoRebase(branch: Branch): boolean {
+        return this.lastRebase?.branch === branch.uuid && this.lastRebase.after === branch.commit
+    }
+
+    /**
+     * Put a branch back on the head it had before its last rebase
+     */
+    undoRebase(branch: Branch): void {
+        this.assertNoRebase("undo a rebase")
+        if (!this.lastRebase || !this.canUndoRebase(branch)) {
+            throw new Error(`'${branch.name}' has no rebase to undo, or has moved since`)
+        }
+        branch.commit = this.lastRebase.before
+        this.lastRebase = null
+        if (branch.uuid === this.currentBranch.uuid) {
+            this.workingRootCid = this.resolve(branch.commit)!.content
+            this.workInProgress.clear()
+        }
+        this.refsChanged()
     }
 
     // =========================================================================
-    // Private Helpers
+    // Addresses
+    // =========================================================================
+
+    /**
+     * Give the node at a path in the working root a stable address. The path
+     * must lead into a document with an id.
+     */
+    createAddress<T>(path: Path<T>): Address<T> {
+        const address = Addresses.create(this.workingRootCid, path, (id) => this.resolve(id))
+
+        // The anchor must outlive the work in progress it may come from
+        this.persistClosure(address.anchor, "The address")
+
+        this.addresses = [...this.addresses, address]
+        this.refsChanged()
+        return address
+    }
+
+    getAddresses(): Address<any>[] {
+        return this.addresses
+    }
+
+    deleteAddress(address: Address<any>): void {
+        this.addresses = this.addresses.filter(a => a.uuid !== address.uuid)
+        this.refsChanged()
+    }
+
+    /**
+     * Where an addressed node is now: in a commit, or in the working root by default.
+     * Undefined if the node is not there.
+     */
+    locateAddress<T>(address: Address<T>, at?: CID<Commit>): Path<T> | undefined {
+        const rootCid = at ? this.resolve(at)?.content : this.workingRootCid
+        if (!rootCid) return undefined
+        return Addresses.locate(address, rootCid, (id) => this.resolve(id))
+    }
+
+    // =========================================================================
+    // Tags
+    // =========================================================================
+
+    /**
+     * Name a commit with an annotated tag. Tags never move; delete and
+     * recreate one to point its name elsewhere.
+     * @param target - Commit to tag (default: current branch's commit)
+     */
+    createTag(name: string, message: string, tagger: string, target: CID<Commit> = this.currentBranch.commit): CID<Tag> {
+        const trimmed = name.trim()
+        if (!trimmed) throw new Error("Tag name cannot be empty")
+        if (this.tags[trimmed]) throw new Error(`Tag '${trimmed}' already exists`)
+        if (this.resolve(target)?.type !== "commit") throw new Error(`Cannot tag ${target}: not a commit`)
+
+        const tagCid = this.sourceOfTruth.put<Tag>({
+            type: "tag",
+            name: trimmed,
+            target,
+            tagger,
+            timestamp: new Date().toISOString(),
+            message
+        })
+        this.tags = { ...this.tags, [trimmed]: tagCid }
+        this.refsChanged()
+        return tagCid
+    }
+
+    /**
+     * All tags, sorted by name
+     */
+    getTags(): { cid: CID<Tag>, tag: Tag }[] {
+        return Object.keys(this.tags)
+            .sort()
+            .map(name => ({ cid: this.tags[name], tag: this.resolve(this.tags[name])! }))
+            .filter(entry => entry.tag)
+    }
+
+    deleteTag(name: string): void {
+        if (!this.tags[name]) throw new Error(`Tag '${name}' does not exist`)
+        const { [name]: _, ...rest } = this.tags
+        this.tags = rest
+        this.refsChanged()
+    }
+
+    // =========================================================================
+    // Bundles
     // =========================================================================
 
-    private isCID(value: any): value is CID<any> {
-        return typeof value === 'string' && value.length === 64 && /^[0-9a-f]+$/.test(value)
+    /**
+     * Export branches (default: all active branches) as a bundle
+     * @param options.knownHeads - Commits the recipient already has, to export only what they are missing
+     */
+    exportBundle(branches?: Branch[], options?: { knownHeads?: CID<Commit>[] }): Bundle {
+        return BundleFormat.create(branches ?? this.branches, (id) => this.resolve(id), options)
     }
 
-    private replaceInTree(node: any, oldCid: CID<any>, newCid: CID<any>): any {
-        if (typeof node !== 'object' || node === null) {
-            return node
+    /**
+     * Import a bundle: verify its nodes, store the history of every branch
+     * that is complete, then merge those branches' refs.
+     * Branches are matched by uuid, then by name. A matching branch is only
+     * moved if that is a fast-forward (or it still holds nothing but its empty
+     * initial commit); diverged branches are reported instead, and so is the
+     * checked-out branch while it has uncommitted changes. A branch with
+     * a node missing or rejected anywhere in its history is not applied, so a
+     * tampered or truncated bundle never leaves a ref pointing at a hole.
+     */
+    importBundle(bundle: Bundle): BundleImportReport {
+        const missing = bundle.prerequisites.filter(head => !this.resolve(head))
+        if (missing.length > 0) {
+            throw new Error(`Bundle requires ${missing.length} commit(s) this repository does not have`)
         }
 
-        const result: any = Array.isArray(node) ? [] : {}
+        const isDirty = this.isDirty()
+        const { valid, rejected } = BundleFormat.verifiedNodes(bundle)
+        const staged = new Map<string, CIDable>(valid)
+        const resolveStaged = (id: CID<any>) => this.sourceOfTruth.get(id) ?? staged.get(id)
 
-        for (const [key, value] of Object.entries(node)) {
-            if (value === oldCid) {
-                result[key] = newCid
-            } else if (Array.isArray(value)) {
-                result[key] = value.map(item => 
-                    item === oldCid ? newCid : 
-                    typeof item === 'object' ? this.replaceInTree(item, oldCid, newCid) : item
-                )
-            } else if (typeof value === 'object' && value !== null) {
-                result[key] = this.replaceInTree(value, oldCid, newCid)
-            } else {
-                result[key] = value
+        const report: BundleImportReport = {
+            imported: 0,
+            rejected,
+            added: [],
+            fastForwarded: [],
+            diverged: [],
+            skipped: [],
+            incomplete: []
+        }
+        const complete: Branch[] = []
+        for (const incoming of bundle.branches) {
+            const closure = [...TreeWalker.collectAllCids(incoming.commit, resolveStaged)]
+            if (resolveStaged(incoming.commit)?.type !== "commit" || !closure.every(id => resolveStaged(id as CID<any>))) {
+                report.incomplete.push({ ...incoming })
+                continue
+            }
+            for (const id of closure) {
+                const node = staged.get(id)
+                if (!node) continue
+                this.sourceOfTruth.put(node)
+                staged.delete(id)
+                report.imported++
             }
+            complete.push(incoming)
         }
 
-        return result
-    }
-
-    private mergeGrammarRoots(currentCid: CID<GrammarRoot>, sourceCid: CID<GrammarRoot>): CID<GrammarRoot> {
-        const current = this.resolve(currentCid) as GrammarRoot | undefined
-        const source = this.resolve(sourceCid) as GrammarRoot | undefined
-        
-        if (!current && !source) {
-            const emptyRoot: GrammarRoot = { type: "grammar_root", content: [] }
-            return this.sourceOfTruth.put(emptyRoot)
-        }
-        if (!current) return sourceCid
-        if (!source) return currentCid
-        
-        // Build maps of directories by name
-        const currentDirs = new Map<string, CID<any>>()
-        const sourceDirs = new Map<string, CID<any>>()
-        
-        for (const dirCid of current.content) {
-            const dir = this.resolve(dirCid as CID<CIDable>)
-            if (dir && (dir as any).name) currentDirs.set((dir as any).name, dirCid)
-        }
-        
-        for (const dirCid of source.content) {
-            const dir = this.resolve(dirCid as CID<CIDable>)
-            if (dir && (dir as any).name) sourceDirs.set((dir as any).name, dirCid)
-        }
-        
-        // Merge: include all directories from both
-        const mergedDirCids: CID<any>[] = []
-        const processedNames = new Set<string>()
-        
-        for (const [name, currentDirCid] of currentDirs) {
-            processedNames.add(name)
-            const sourceDirCid = sourceDirs.get(name)
-            
-            if (sourceDirCid) {
-                const mergedDirCid = this.mergeDirectories(currentDirCid, sourceDirCid)
-                mergedDirCids.push(mergedDirCid)
+        const resolve = (id: CID<any>) => this.resolve(id)
+        for (const incoming of complete) {
+            const local = this.findMatchingBranch(this.branches, incoming)
+
+            if (!local) {
+                const branch = { ...incoming }
+                this.branches.push(branch)
+                report.added.push(branch)
+            } else if (local.commit === incoming.commit || HistoryView.isAncestor(incoming.commit, local.commit, resolve)) {
+                continue
+            } else if (HistoryView.isAncestor(local.commit, incoming.commit, resolve) || this.isInitialCommit(local.commit)) {
+                // The next commit would put the old tree on top of the imported one
+                if (isDirty && local.uuid === this.currentBranch.uuid) {
+                    report.skipped.push(local)
+                    continue
+                }
+                local.commit = incoming.commit
+                report.fastForwarded.push(local)
             } else {
-                mergedDirCids.push(currentDirCid)
+                report.diverged.push(local)
             }
         }
-        
-        for (const [name, sourceDirCid] of sourceDirs) {
-            if (!processedNames.has(name)) {
-                mergedDirCids.push(sourceDirCid)
-            }
+
+        if (report.fastForwarded.includes(this.currentBranch)) {
+            this.workingRootCid = this.resolve(this.currentBranch.commit)!.content
         }
-        
-        const mergedRoot: GrammarRoot = {
-            type: "grammar_root",
-            content: mergedDirCids
-        }
-        
-        return this.sourceOfTruth.put(mergedRoot)
-    }
-
-    private mergeDirectories(currentCid: CID<any>, sourceCid: CID<any>): CID<any> {
-        const current = this.resolve(currentCid as CID<CIDable>)
-        const source = this.resolve(sourceCid as CID<CIDable>)
-        
-        if (!current) return sourceCid
-        if (!source) return currentCid
-        
-        const currentChildren = new Map<string, CID<any>>()
-        const sourceChildren = new Map<string, CID<any>>()
-        
-        for (const childCid of (current as any).children || []) {
-            const child = this.resolve(childCid as CID<CIDable>)
-            if (child) {
-                const name = (child as any).type === 'folder' ? (child as any).name : ((child as any).name || 'untitled')
-                currentChildren.set(name, childCid)
+
+        this.refsChanged()
+        return report
+    }
+
+    // =========================================================================
+    // Remotes
+    // =========================================================================
+
+    /**
+     * Get the remote-tracking branches last fetched from a remote
+     */
+    getRemoteBranches(remoteName: string): Branch[] {
+        return this.remoteBranches[remoteName] ?? []
+    }
+
+    /**
+     * Get the remote-tracking branch corresponding to a local branch
+     */
+    getTrackingBranch(branch: Branch, remoteName: string): Branch | undefined {
+        return this.findMatchingBranch(this.getRemoteBranches(remoteName), branch)
+    }
+
+    /**
+     * Compare a branch with its remote-tracking branch.
+     * Only what was last fetched is considered; fetch first for a current answer.
+     */
+    getTrackingStatus(branch: Branch, remoteName: string): TrackingStatus {
+        const remoteBranch = this.getTrackingBranch(branch, remoteName)
+        if (!remoteBranch) {
+            return { remoteBranch: null, ahead: 0, behind: 0, state: "untracked" }
+        }
+
+        let { ahead, behind } = HistoryView.countAheadBehind(
+            branch.commit,
+            remoteBranch.commit,
+            (id) => this.resolve(id)
+        )
+        // An empty initial commit carries nothing and is replaced rather than merged
+        if (this.isInitialCommit(branch.commit)) ahead = 0
+        if (this.isInitialCommit(remoteBranch.commit)) behind = 0
+
+        const state = ahead > 0 && behind > 0 ? "diverged"
+            : ahead > 0 ? "ahead"
+            : behind > 0 ? "behind"
+            : "up_to_date"
+
+        return { remoteBranch, ahead, behind, state }
+    }
+
+    /**
+     * Download every branch of a remote and record their heads as
+     * remote-tracking branches. Local branches are not touched.
+     */
+    async fetch(remote: Remote): Promise<Branch[]> {
+        const branches = await remote.listBranches()
+        await this.fetchObjects(remote, branches.map(b => b.commit))
+
+        this.remoteBranches[remote.name] = branches.map(b => ({ ...b }))
+        this.refsChanged()
+        return this.remoteBranches[remote.name]
+    }
+
+    /**
+     * Upload a branch (default: the current one) and move the remote branch to its head.
+     * Only fast-forwards are attempted; a diverged branch must be pulled first.
+     *
+     * The remote is offered the commits not reachable from any of its heads
+     * we know of, as in exportBundle, and answers with the ones it lacks.
+     * Only those commits and the parts of their trees the remote does not
+     * already hold are uploaded.
+     */
+    async push(remote: Remote, branch: Branch = this.currentBranch): Promise<Branch> {
+        const resolve = (id: CID<any>) => this.resolve(id)
+        const remoteBranches = await remote.listBranches()
+        const remoteBranch = this.findMatchingBranch(remoteBranches, branch)
+        const expected = remoteBranch?.commit ?? null
+
+        if (expected && !this.resolve(expected)) {
+            await this.fetchObjects(remote, [expected])
+        }
+        if (expected && !HistoryView.isAncestor(expected, branch.commit, resolve) && !this.isInitialCommit(expected)) {
+            throw new Error(`'${branch.name}' has diverged from ${remote.name}; pull first`)
+        }
+
+        const knownHeads = [...remoteBranches, ...this.getRemoteBranches(remote.name)]
+            .map(b => b.commit)
+            .filter(head => this.resolve(head))
+        const offered = Negotiation.missingCommits([branch.commit], knownHeads, resolve)
+        const lacking = await remote.negotiatePush(offered)
+        const lackingSet = new Set<string>(lacking)
+
+        // Trees of the commits the remote already has are known to be there,
+        // so anything shared with their direct descendants need not be asked about
+        const known = new Set<string>()
+        for (const id of lacking) {
+            for (const parent of this.resolve(id)!.parents) {
+                if (lackingSet.has(parent)) continue
+                const parentCommit = this.resolve(parent)
+                if (!parentCommit) continue
+                for (const shared of TreeWalker.collectAllCids(parentCommit.content, resolve)) {
+                    known.add(shared)
+                }
             }
         }
-        
-        for (const childCid of (source as any).children || []) {
-            const child = this.resolve(childCid as CID<CIDable>)
-            if (child) {
-                const name = (child as any).type === 'folder' ? (child as any).name : ((child as any).name || 'untitled')
-                sourceChildren.set(name, childCid)
+
+        const nodes: CIDable[] = lacking.map(id => this.resolve(id)!)
+        const queued = new Set<string>(lacking)
+        let wave: CID<any>[] = lacking.map(id => this.resolve(id)!.content)
+
+        while (wave.length > 0) {
+            const candidates = [...new Set(wave)].filter(id => !known.has(id) && !queued.has(id))
+            const remoteHas = new Set<string>(await remote.hasNodes(candidates))
+            const next: CID<any>[] = []
+
+            for (const id of candidates) {
+                if (remoteHas.has(id)) continue
+                const node = this.resolve(id as CID<CIDable>)
+                if (!node) continue
+                queued.add(id)
+                nodes.push(node)
+                next.push(...TreeWalker.getChildCids(node))
             }
+            wave = next
         }
-        
-        const mergedChildren: CID<any>[] = []
-        const processedNames = new Set<string>()
-        
-        for (const [name, currentChildCid] of currentChildren) {
-            processedNames.add(name)
-            const sourceChildCid = sourceChildren.get(name)
-            
-            if (sourceChildCid) {
-                const currentChild = this.resolve(currentChildCid as CID<CIDable>)
-                const sourceChild = this.resolve(sourceChildCid as CID<CIDable>)
-                
-                if ((currentChild as any)?.type === 'folder' && (sourceChild as any)?.type === 'folder') {
-                    const mergedChildCid = this.mergeDirectories(currentChildCid, sourceChildCid)
-                    mergedChildren.push(mergedChildCid)
+
+        await remote.putNodes(nodes)
+        const updated = await remote.updateBranch({ ...branch, uuid: remoteBranch?.uuid ?? branch.uuid }, expected)
+        this.setTrackingBranch(remote.name, updated)
+        return updated
+    }
+
+    /**
+     * Fetch from a remote and fast-forward a branch (default: the current one)
+     * to its remote-tracking branch. A diverged branch is left untouched and
+     * reported through the returned status; it needs a merge instead.
+     * The current branch must be clean, or its next commit would put the old
+     * tree on top of the pulled one.
+     */
+    async pull(remote: Remote, branch: Branch = this.currentBranch): Promise<TrackingStatus> {
+        this.assertNoRebase("pull")
+        if (branch.uuid === this.currentBranch.uuid && this.isDirty()) {
+            throw new Error("Commit or discard your changes first")
+        }
+        await this.fetch(remote)
+
+        const status = this.getTrackingStatus(branch, remote.name)
+        if (status.state === "untracked") {
+            throw new Error(`${remote.name} has no branch '${branch.name}'`)
+        }
+        if (status.state !== "behind") {
+            return status
+        }
+
+        branch.commit = status.remoteBranch!.commit
+        if (branch.uuid === this.currentBranch.uuid) {
+            this.workingRootCid = this.resolve(branch.commit)!.content
+        }
+        this.refsChanged()
+        return this.getTrackingStatus(branch, remote.name)
+    }
+
+    /**
+     * Store nodes received from another repository
+     */
+    receiveNodes(nodes: CIDable[]): CID<CIDable>[] {
+        return nodes.map(node => this.sourceOfTruth.put(node))
+    }
+
+    /**
+     * Compare-and-swap a branch head on behalf of a pushing repository.
+     * Creates the branch if `expected` is null and it does not exist yet.
+     */
+    compareAndSwapBranch(update: BranchUpdateRequest & { uuid: string }): Branch {
+        const current = this.branches.find(b => b.uuid === update.uuid)
+        const rejection = Negotiation.validateBranchUpdate(current, update, (id) => this.resolve(id))
+        if (rejection) {
+            throw new Error(rejection)
+        }
+
+        if (!current) {
+            const branch: Branch = { uuid: update.uuid, name: update.name, commit: update.commit }
+            this.branches.push(branch)
+            this.refsChanged()
+            return branch
+        }
+
+        const checkedOut = current.uuid === this.currentBranch.uuid
+        // Moving the head under local edits would let the next commit undo the push
+        if (checkedOut && this.isDirty()) {
+            throw new Error(`'${current.name}' is checked out with uncommitted changes`)
+        }
+        current.commit = update.commit
+        if (checkedOut) {
+            this.workingRootCid = this.resolve(current.commit)!.content
+        }
+        this.refsChanged()
+        return current
+    }
+
+    // =========================================================================
+    // Maintenance
+    // =========================================================================
+
+    /**
+     * Drop every stored node that is unreachable from the branch heads,
+     * archived and remote-tracking branches and the working root.
+     * @param options.dryRun - Only report what would be reclaimed
+     */
+    gc(options?: { dryRun?: boolean }): GarbageCollectionReport {
+        return GarbageCollector.collect(
+            [this.sourceOfTruth, this.workInProgress],
+            this.getRootCids(),
+            (id) => this.resolve(id),
+            options
+        )
+    }
+
+    /**
+     * Verify that every stored node hashes to its key and that every
+     * reference from nodes, branches, tags and the working root resolves
+     */
+    fsck(): IntegrityReport {
+        return IntegrityCheck.verify(
+            [this.sourceOfTruth, this.workInProgress],
+            [...this.branches, ...this.archivedBranches, ...this.getAllRemoteBranches()],
+            { tags: this.tags, workingRoot: this.workingRootCid }
+        )
+    }
+
+    /**
+     * Run fsck and re-fetch every missing or corrupted node from another source
+     */
+    repair(source: Resolver): RepairReport {
+        return IntegrityCheck.repair(
+            this.fsck(),
+            [this.sourceOfTruth, this.workInProgress],
+            this.sourceOfTruth,
+            source
+        )
+    }
+
+    // =========================================================================
+    // Tree Mutation Helpers
+    // =========================================================================
+
+    /**
+     * The CID at a path in the working root
+     */
+    resolveAt<T>(path: Path<T>): CID<T> | undefined {
+        return Paths.resolve(this.workingRootCid, path, (id) => this.resolve(id))
+    }
+
+    /**
+     * Store a node at a path in the working root, rebuilding only its ancestors.
+     * Other nodes with the same content elsewhere in the tree keep their CID.
+     */
+    updateAt<T extends CIDable>(path: Path<T>, newNode: T): CID<T> {
+        const newCid = this.workInProgress.put(newNode)
+        this.workingRootCid = Paths.replace(this.workingRootCid, path, newCid, {
+            put: (node) => this.workInProgress.put(node),
+            get: (id) => this.resolve(id)
+        })
+        this.refsChanged()
+        return newCid
+    }
+
+    // =========================================================================
+    // Private Helpers
+    // =========================================================================
+
+    private transferWorkInProgress(): void {
+        for (const [, node] of this.workInProgress.entries()) {
+            this.sourceOfTruth.put(node)
+        }
+    }
+
+    /**
+     * Find the branch in a list that corresponds to ours: same uuid, else same name
+     */
+    private findMatchingBranch(branches: Branch[], branch: Branch): Branch | undefined {
+        return branches.find(b => b.uuid === branch.uuid) ?? branches.find(b => b.name === branch.name)
+    }
+
+    /**
+     * Record a remote branch head after a successful push
+     */
+    private setTrackingBranch(remoteName: string, branch: Branch): void {
+        const tracking = this.getRemoteBranches(remoteName).filter(b => b.uuid !== branch.uuid)
+        this.remoteBranches[remoteName] = [...tracking, { ...branch }]
+        this.refsChanged()
+    }
+
+    private getAllRemoteBranches(): Branch[] {
+        return Object.values(this.remoteBranches).flat()
+    }
+
+    /**
+     * Download everything reachable from the given remote heads that we do not
+     * have yet. The remote first names the missing commits (relative to all our
+     * branch and remote-tracking heads); their trees are then fetched one level at a time, skipping
+     * any subtree already present.
+     */
+    private async fetchObjects(remote: Remote, heads: CID<Commit>[]): Promise<number> {
+        const haves = [...this.branches, ...this.archivedBranches, ...this.getAllRemoteBranches()].map(b => b.commit)
+        const commits = (await remote.negotiatePull(heads, haves)).filter(id => !this.resolve(id))
+
+        let fetched = 0
+        let wave: CID<any>[] = commits
+        let commitLevel = true
+
+        while (wave.length > 0) {
+            const missing = [...new Set(wave)].filter(id => !this.resolve(id))
+            const nodes = await remote.getNodes(missing)
+            const next: CID<any>[] = []
+
+            for (const id of missing) {
+                const node = nodes[id]
+                if (!node || cid(node) !== id) {
+                    throw new Error(`${remote.name} sent missing or corrupt node ${id}`)
+                }
+                this.sourceOfTruth.put(node)
+                fetched++
+                // Parents of missing commits are either missing too (and in this
+                // wave) or already here, so from commits only descend into content
+                if (commitLevel) {
+                    next.push((node as Commit).content)
                 } else {
-                    // Conflict - source wins
-                    mergedChildren.push(sourceChildCid)
+                    next.push(...TreeWalker.getChildCids(node))
                 }
-            } else {
-                mergedChildren.push(currentChildCid)
             }
+            wave = next
+            commitLevel = false
+        }
+
+        return fetched
+    }
+
+    /**
+     * Whether a commit is an untouched repository's empty initial commit
+     */
+    private isInitialCommit(commitCid: CID<Commit>): boolean {
+        return Negotiation.isEmptyInitialCommit(commitCid, (id) => this.resolve(id))
+    }
+
+    /**
+     * Every CID that keeps content alive
+     */
+    private getRootCids(): CID<any>[] {
+        return [
+            ...this.branches.map(b => b.commit),
+            ...this.archivedBranches.map(b => b.commit),
+            ...this.getAllRemoteBranches().map(b => b.commit),
+            ...this.addresses.map(a => a.anchor),
+            ...Object.values(this.tags),
+            ...(this.rebaseState ? [this.rebaseState.originalHead, this.rebaseState.head] : []),
+            ...(this.lastRebase ? [this.lastRebase.before] : []),
+            this.workingRootCid
+        ]
+    }
+
+    /**
+     * Summary of a squash merge: one line per commit it squashes, oldest first
+     */
+    private squashMessage(sourceBranch: Branch, target: Branch): string {
+        const squashed = HistoryView.commitsSince(sourceBranch.commit, target.commit, (id) => this.resolve(id))
+        const lines = squashed
+            .map(id => this.resolve(id)!.message.split("\n")[0])
+            .map(message => `* ${message}`)
+        return `Squash '${sourceBranch.name}' into '${target.name}'\n\n${lines.join("\n")}`
+    }
+
+    /**
+     * After a merge moved a branch: if it is the current one, its head becomes
+     * the working state
+     */
+    private branchMoved(branch: Branch): void {
+        if (branch.uuid === this.currentBranch.uuid) {
+            this.workingRootCid = this.resolve(branch.commit)!.content
+            this.workInProgress.clear()
+            this.reanchorAddresses()
+        }
+        this.refsChanged()
+    }
+
+    /**
+     * Store the content of every resolution for good, since it may only be in
+     * the work in progress a commit clears. Throws if any of it is missing.
+     */
+    private persistResolutions(resolutions?: MergeResolutions): void {
+        for (const [path, resolution] of Object.entries(resolutions ?? {})) {
+            if (resolution) this.persistClosure(resolution, `The resolution for '${path}'`)
+        }
+    }
+
+    /**
+     * Copy a node and everything below it into the source of truth
+     */
+    private persistClosure(rootCid: CID<any>, description: string): void {
+        for (const id of TreeWalker.collectAllCids(rootCid, (id) => this.resolve(id))) {
+            const node = this.resolve(id as CID<CIDable>)
+            if (!node) {
+                throw new Error(`${description} refers to ${id}, which is not stored`)
+            }
+            this.sourceOfTruth.put(node)
+        }
+    }
+
+    /**
+     * Apply the change from one tree to another on top of the current branch
+     * and commit it there, as cherry-pick and revert do. The working state
+     * must be clean, so no unrelated edit ends up in the commit.
+     */
+    private applyChange(
+        from: CID<GrammarRoot> | null,
+        to: CID<GrammarRoot>,
+        message: string,
+        author: string,
+        options?: MergeOptions
+    ): MergeOutcome {
+        this.assertNoRebase("apply another commit's change")
+        if (this.isDirty()) {
+            throw new Error("Commit or discard your changes first")
+        }
+        const resolve = (id: CID<any>) => this.resolve(id)
+        const intoDefault = this.currentBranch.uuid === this.defaultBranch.uuid
+        this.persistResolutions(options?.resolutions)
+
+        const { root, conflicts, conflictedDocuments } = ThreeWayMerge.mergeRoots(
+            from,
+            this.workingRootCid,
+            to,
+            { put: (node) => this.sourceOfTruth.put(node), get: resolve },
+            { ...options, conflictBlocks: options?.conflictBlocks && !intoDefault }
+        )
+        if (conflicts.length > 0) {
+            return { commit: null, conflicts, conflictedDocuments: [] }
         }
-        
-        for (const [name, sourceChildCid] of sourceChildren) {
-            if (!processedNames.has(name)) {
-                mergedChildren.push(sourceChildCid)
+        if (root === this.workingRootCid) {
+            // The change is already here
+            return { commit: null, conflicts: [], conflictedDocuments: [] }
+        }
+        if (intoDefault && TreeWalker.findConflictBlocks(root, resolve).length > 0) {
+            throw new Error(`The change conflicts; resolve it before it reaches '${this.currentBranch.name}'`)
+        }
+
+        this.workingRootCid = root
+        return { commit: this.commit(message, author), conflicts: [], conflictedDocuments }
+    }
+
+    /**
+     * Replay the remaining commits of a rebase, pausing on conflicts. Only the
+     * first replayed commit gets the resolutions; conflict blocks apply to all.
+     */
+    private replayCommits(state: RebaseState, options?: MergeOptions): RebaseOutcome {
+        const resolve = (id: CID<any>) => this.resolve(id)
+        let { head, remaining } = state
+        let stepOptions = options
+
+        while (remaining.length > 0) {
+            const commitCid = remaining[0]
+            const commit = this.resolve(commitCid)!
+            const parent = commit.parents[0] ? this.resolve(commit.parents[0]) : undefined
+            const headContent = this.resolve(head)!.content
+
+            const { root, conflicts } = ThreeWayMerge.mergeRoots(
+                parent?.content ?? null,
+                headContent,
+                commit.content,
+                { put: (node) => this.sourceOfTruth.put(node), get: resolve },
+                stepOptions
+            )
+            if (conflicts.length > 0) {
+                this.rebaseState = { ...state, head, remaining }
+                this.refsChanged()
+                return { head: null, conflicts, stoppedAt: commitCid }
+            }
+
+            if (root !== headContent) {
+                head = this.sourceOfTruth.put<Commit>({
+                    type: "commit",
+                    parents: [head],
+                    content: root,
+                    author: commit.author,
+                    timestamp: new Date().toISOString(),
+                    message: commit.message
+                })
             }
+            remaining = remaining.slice(1)
+            stepOptions = { conflictBlocks: options?.conflictBlocks }
+        }
+
+        const branch = this.branches.find(b => b.uuid === state.branch)
+        if (!branch) {
+            throw new Error("The branch being rebased no longer exists")
+        }
+        branch.commit = head
+        this.rebaseState = null
+        this.lastRebase = { branch: branch.uuid, before: state.originalHead, after: head }
+        if (branch.uuid === this.currentBranch.uuid) {
+            this.workingRootCid = this.resolve(head)!.content
+            this.workInProgress.clear()
+            this.reanchorAddresses()
         }
-        
-        const mergedDir = {
-            type: "folder",
-            name: (current as any).name,
-            children: mergedChildren
+        this.refsChanged()
+        return { head, conflicts: [], stoppedAt: null }
+    }
+
+    /**
+     * Paused rebases finish by setting the branch head; anything that moves
+     * the branch or replaces the working state in between would be lost
+     */
+    private assertNoRebase(action: string): void {
+        if (this.rebaseState) {
+            throw new Error(`Cannot ${action} while a rebase is paused; continue or abort it first`)
         }
-        
-        return this.sourceOfTruth.put(mergedDir as CIDable)
+    }
+
+    /**
+     * Move address anchors up to the current branch head, so lookups stay short
+     */
+    private reanchorAddresses(): void {
+        const head = this.resolve(this.currentBranch.commit)!
+        this.addresses = this.addresses.map(a => Addresses.reanchor(a, head.content, (id) => this.resolve(id)))
+    }
+
+    private refsChanged(): void {
+        this.onRefsChange?.(this.getRefs())
     }
 }
 
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest"
+import { Diff3 } from "../Diff3"
+
+// Deterministic pseudo-random sequences over a small alphabet, so items repeat
+function sequences(count: number, seed: number = 1): string[][] {
+    let state = seed
+    const next = () => (state = (state * 1103515245 + 12345) % 2147483648) / 2147483648
+    return Array.from({ length: count }, () =>
+        Array.from({ length: Math.floor(next() * 30) }, () => "abcd"[Math.floor(next() * 4)])
+    )
+}
+
+// Textbook dynamic programme, as the reference for the LCS length
+function lcsLength(a: string[], b: string[]): number {
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+        }
+    }
+    return lengths[0][0]
+}
+
+describe("Diff3.lcs", () => {
+    it("pairs equal items in increasing order", () => {
+        expect(Diff3.lcs([..."abcabba"], [..."cbabac"])).toHaveLength(4)
+        expect(Diff3.lcs([..."same"], [..."same"])).toEqual([[0, 0], [1, 1], [2, 2], [3, 3]])
+        expect(Diff3.lcs([..."abc"], [..."xyz"])).toEqual([])
+        expect(Diff3.lcs([], [..."abc"])).toEqual([])
+    })
+
+    it("finds a longest common subsequence", () => {
+        const inputs = sequences(200)
+        for (let i = 0; i + 1 < inputs.length; i += 2) {
+            const [a, b] = [inputs[i], inputs[i + 1]]
+            const pairs = Diff3.lcs(a, b)
+
+            expect(pairs).toHaveLength(lcsLength(a, b))
+            pairs.forEach(([x, y], k) => {
+                expect(a[x]).toBe(b[y])
+                if (k > 0) {
+                    expect(x).toBeGreaterThan(pairs[k - 1][0])
+                    expect(y).toBeGreaterThan(pairs[k - 1][1])
+                }
+            })
+        }
+    })
+
+    it("handles long sequences with few changes", () => {
+        const a = Array.from({ length: 200_000 }, (_, i) => i)
+        const b = [...a]
+        b.splice(50_000, 3, -1)
+        b.splice(150_000, 0, -2, -3)
+
+        expect(Diff3.lcs(a, b)).toHaveLength(a.length - 3)
+    })
+})
+
+describe("Diff3.merge", () => {
+    it("takes changes from each side around the stable parts", () => {
+        const hunks = Diff3.merge([..."abcde"], [..."aXcde"], [..."abcdY"])
+        expect(hunks).toEqual([
+            { kind: "stable", items: ["a"] },
+            { kind: "ours", items: ["X"] },
+            { kind: "stable", items: ["c", "d"] },
+            { kind: "theirs", items: ["Y"] }
+        ])
+        expect(Diff3.mergeClean([..."abcde"], [..."aXcde"], [..."abcdY"])).toEqual([..."aXcdY"])
+    })
+
+    it("reports regions both sides changed differently as conflicts", () => {
+        expect(Diff3.merge([..."abc"], [..."aXc"], [..."aYc"])).toContainEqual(
+            { kind: "conflict", base: ["b"], ours: ["X"], theirs: ["Y"] }
+        )
+        expect(Diff3.mergeClean([..."abc"], [..."aXc"], [..."aYc"])).toBeNull()
+        expect(Diff3.mergeClean([..."abc"], [..."aXc"], [..."aXc"])).toEqual([..."aXc"])
+    })
+})
@@ -0,0 +1,31 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { CID } from "../cid"
+import { FileSystemStore } from "../store/FileSystemStore"
+
+describe("FileSystemStore", () => {
+    let dir: string
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "merkurial-store-"))
+    })
+    afterEach(() => rmSync(dir, { recursive: true, force: true }))
+
+    it("stores nodes under their CID", () => {
+        const store = new FileSystemStore(join(dir, "objects"))
+        const id = store.put({ type: "text", value: "hello" })
+        expect(store.get(id)).toEqual({ type: "text", value: "hello" })
+        expect([...store.entries()].map(([key]) => key)).toEqual([id])
+    })
+
+    it("refuses ids that are not CIDs instead of reading outside its root", () => {
+        writeFileSync(join(dir, "secret.json"), JSON.stringify({ type: "text", value: "secret" }))
+        const store = new FileSystemStore(join(dir, "objects"))
+        const escape = "../secret.json" as CID<any>
+
+        expect(() => store.get(escape)).toThrow(/Not a CID/)
+        expect(() => store.has(escape)).toThrow(/Not a CID/)
+        expect(() => store.delete(escape)).toThrow(/Not a CID/)
+    })
+})
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { MemoryStore } from "../store/MemoryStore"
+import { VersionControl } from "../VersionControl"
+import { commitDocs, readDocs, writeDocs } from "./fixtures"
+
+describe("GarbageCollector", () => {
+    it("reclaims abandoned work and keeps committed history", () => {
+        const objects = new MemoryStore()
+        const vc = new VersionControl({ sourceOfTruth: objects })
+        commitDocs(vc, "first", { "notes/a": ["one"] })
+        const first = vc.getCurrentBranch().commit
+        commitDocs(vc, "second", { "notes/a": ["two"] })
+
+        const orphan = objects.put({ type: "text", value: "unreferenced" })
+
+        const report = vc.gc()
+        expect(report.reclaimedNodes).toBe(1)
+        expect(objects.has(orphan)).toBe(false)
+        expect(readDocs(vc)).toEqual({ "notes/a": ["two"] })
+        expect(readDocs(vc, vc.resolve(first)!.content)).toEqual({ "notes/a": ["one"] })
+        expect(vc.fsck().ok).toBe(true)
+    })
+
+    it("only reports in a dry run", () => {
+        const objects = new MemoryStore()
+        const vc = new VersionControl({ sourceOfTruth: objects })
+        writeDocs(vc, { "notes/a": ["draft"] })
+        vc.commit("draft", "test")
+        writeDocs(vc, { "notes/a": ["final"] })
+        vc.commit("final", "test")
+        const before = [...objects.entries()].length
+
+        const report = vc.gc({ dryRun: true })
+        expect(report.dryRun).toBe(true)
+        expect([...objects.entries()].length).toBe(before)
+    })
+
+    it("keeps content that only a tag or an address refers to", () => {
+        const vc = new VersionControl()
+        commitDocs(vc, "release", { "notes/a": ["released"] })
+        const release = vc.getCurrentBranch().commit
+        vc.createTag("v1", "", "test")
+        const archived = vc.createBranch("scratch", { fromCommit: release })
+        vc.archiveBranch(archived)
+
+        commitDocs(vc, "rewrite", { "notes/b": ["rewritten"] })
+        vc.gc()
+
+        expect(readDocs(vc, vc.resolve(release)!.content)).toEqual({ "notes/a": ["released"] })
+    })
+})
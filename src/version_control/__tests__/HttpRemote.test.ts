@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { HttpRemote, RemoteRequestError } from "../remote/HttpRemote"
+
+function respondWith(body: string, init: ResponseInit) {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(body, init)))
+}
+
+describe("HttpRemote", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals()
+    })
+
+    it("reports the server's error message", async () => {
+        respondWith(JSON.stringify({ error: "Branch has moved; fetch and try again" }), { status: 409, statusText: "Conflict" })
+
+        const failure = new HttpRemote().listBranches()
+        await expect(failure).rejects.toBeInstanceOf(RemoteRequestError)
+        await expect(failure).rejects.toMatchObject({ message: "Branch has moved; fetch and try again", status: 409 })
+    })
+
+    it("falls back to the status line for an error page that is not JSON", async () => {
+        respondWith("<html><body>Bad Gateway</body></html>", { status: 502, statusText: "Bad Gateway" })
+
+        await expect(new HttpRemote().listBranches()).rejects.toMatchObject({ message: "502 Bad Gateway", status: 502 })
+    })
+
+    it("rejects a successful response that is not JSON", async () => {
+        respondWith("OK", { status: 200 })
+
+        await expect(new HttpRemote().listBranches()).rejects.toThrow(/Expected JSON/)
+    })
+})
@@ -0,0 +1,57 @@
+import { IDBFactory } from "fake-indexeddb"
+import { describe, expect, it, vi } from "vitest"
+import { IndexedDBStore } from "../store/IndexedDBStore"
+
+const OBJECTS = "objects"
+
+// A fresh database with one object store
+function openDatabase(): Promise<IDBDatabase> {
+    const openRequest = new IDBFactory().open("merkurial-test", 1)
+    openRequest.onupgradeneeded = () => openRequest.result.createObjectStore(OBJECTS)
+    return new Promise((resolve, reject) => {
+        openRequest.onsuccess = () => resolve(openRequest.result)
+        openRequest.onerror = () => reject(openRequest.error)
+    })
+}
+
+// What a reload would see
+async function persisted(db: IDBDatabase): Promise<string[]> {
+    const store = new IndexedDBStore(db, OBJECTS)
+    await store.load()
+    return [...store.entries()].map(([id]) => id)
+}
+
+describe("IndexedDBStore", () => {
+    it("persists puts and deletes", async () => {
+        const db = await openDatabase()
+        const store = new IndexedDBStore(db, OBJECTS)
+        const kept = store.put({ type: "text", value: "kept" })
+        const dropped = store.put({ type: "text", value: "dropped" })
+        await store.flush()
+        store.delete(dropped)
+        await store.flush()
+
+        expect(await persisted(db)).toEqual([kept])
+    })
+
+    it("keeps a node put again after a clear() during a flush", async () => {
+        const db = await openDatabase()
+        const store = new IndexedDBStore(db, OBJECTS)
+        const node = { type: "text", value: "hello" } as const
+        const id = store.put(node)
+
+        // Clear and put the same node back once the flush has taken its batch
+        const transaction = db.transaction.bind(db)
+        vi.spyOn(db, "transaction").mockImplementationOnce((...args: Parameters<IDBDatabase["transaction"]>) => {
+            const tx = transaction(...args)
+            store.clear()
+            store.put(node)
+            return tx
+        })
+        await store.flush()
+        await store.flush()
+
+        expect(store.get(id)).toEqual(node)
+        expect(await persisted(db)).toEqual([id])
+    })
+})
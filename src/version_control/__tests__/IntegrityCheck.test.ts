@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest"
+import { cid, CID, CIDable } from "../cid"
+import { Commit } from "../immutable/commit"
+import { Directory, GrammarRoot } from "../immutable/grammar"
+import { IntegrityCheck } from "../IntegrityCheck"
+import { MemoryStore } from "../store/MemoryStore"
+import { VersionControl } from "../VersionControl"
+import { commitDocs, integrityIssues } from "./fixtures"
+
+// A copy of every object, as another replica would hold
+function replicate(objects: MemoryStore): MemoryStore {
+    const copy = new MemoryStore()
+    for (const [, node] of objects.entries()) copy.put(node)
+    return copy
+}
+
+describe("IntegrityCheck", () => {
+    it("passes a healthy repository", () => {
+        const vc = new VersionControl()
+        commitDocs(vc, "first", { "notes/a": ["one"] })
+        const report = vc.fsck()
+        expect(report.ok).toBe(true)
+        expect(report.checkedNodes).toBeGreaterThan(0)
+    })
+
+    it("finds nodes that no longer hash to their key", () => {
+        const objects = new MemoryStore()
+        const vc = new VersionControl({ sourceOfTruth: objects })
+        commitDocs(vc, "first", { "notes/a": ["one"] })
+        const [id] = [...objects.entries()].find(([, node]) => node.type === "text")!
+        const raw = (objects as unknown as { store: Map<string, CIDable> }).store
+        raw.set(id, { type: "text", value: "tampered" })
+
+        expect(integrityIssues(vc)).toContain("corrupted_node")
+    })
+
+    it("finds references to missing nodes and repairs them from a replica", () => {
+        const objects = new MemoryStore()
+        const vc = new VersionControl({ sourceOfTruth: objects })
+        commitDocs(vc, "first", { "notes/a": ["one", "two"] })
+        const replica = replicate(objects)
+        const [id] = [...objects.entries()].find(([, node]) => node.type === "paragraph")!
+        objects.delete(id as CID<any>)
+
+        expect(integrityIssues(vc)).toContain("dangling_reference")
+        const repair = vc.repair((cid) => replica.get(cid))
+        expect(repair.repaired).toContain(id)
+        expect(repair.unrepaired).toEqual([])
+        expect(vc.fsck().ok).toBe(true)
+    })
+
+    it("reports a branch whose head is not a commit", () => {
+        const vc = new VersionControl()
+        commitDocs(vc, "first", { "notes/a": ["one"] })
+        const branch = vc.createBranch("broken")
+        branch.commit = vc.getWorkingRoot() as CID<any>
+
+        expect(integrityIssues(vc)).toContain("branch_not_commit")
+    })
+
+    it("reports a tag whose tag object is missing and repairs it", () => {
+        const objects = new MemoryStore()
+        const vc = new VersionControl({ sourceOfTruth: objects })
+        commitDocs(vc, "first", { "notes/a": ["one"] })
+        const tag = vc.createTag("v1", "release", "test")
+        const replica = replicate(objects)
+        objects.delete(tag)
+
+        expect(integrityIssues(vc)).toEqual(["tag_not_tag"])
+        expect(vc.repair((cid) => replica.get(cid)).repaired).toEqual([tag])
+        expect(vc.fsck().ok).toBe(true)
+    })
+
+    it("reports a working root that is not stored", () => {
+        const vc = new VersionControl()
+        commitDocs(vc, "first", { "notes/a": ["one"] })
+        const folder = cid<Directory>({ type: "folder", name: "never stored", children: [] })
+        vc.setWorkingRoot(cid<GrammarRoot>({ type: "grammar_root", content: [folder] }))
+
+        expect(integrityIssues(vc)).toEqual(["missing_working_root"])
+    })
+
+    it("repairs a missing history deeper than the call stack", () => {
+        const source = new MemoryStore()
+        const content = source.put<GrammarRoot>({ type: "grammar_root", content: [] })
+        let head: CID<Commit> | undefined
+        for (let i = 0; i < 20_000; i++) {
+            head = source.put<Commit>({
+                type: "commit",
+                parents: head ? [head] : [],
+                content,
+                author: "test",
+                timestamp: "2024-01-01T00:00:00.000Z",
+                message: `commit ${i}`
+            })
+        }
+
+        const target = new MemoryStore()
+        const report = IntegrityCheck.verify([target], [{ uuid: "default", name: "default", commit: head! }])
+        const repair = IntegrityCheck.repair(report, [target], target, (id) => source.get(id))
+        expect(repair.repaired).toHaveLength(20_001)
+        expect(repair.unrepaired).toEqual([])
+    })
+})
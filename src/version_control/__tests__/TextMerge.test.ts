@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import { CID } from "../cid"
+import { InlineNode } from "../immutable/grammar"
+import { MemoryStore } from "../store/MemoryStore"
+import { TextMerge } from "../TextMerge"
+
+const store = new MemoryStore()
+
+const text = (value: string) => store.put<InlineNode>({ type: "text", value })
+const strong = (...content: CID<InlineNode>[]) => store.put<InlineNode>({ type: "strong", content })
+const emphasis = (...content: CID<InlineNode>[]) => store.put<InlineNode>({ type: "emphasis", content })
+const link = (href: string, ...content: CID<InlineNode>[]) => store.put<InlineNode>({ type: "link", href, content })
+
+// Inline content as markdown, to compare structure at a glance
+function markdown(cids: CID<InlineNode>[]): string {
+    return cids.map(id => {
+        const node = store.get(id)!
+        switch (node.type) {
+            case "text": return node.value
+            case "code_span": return `\`${node.value}\``
+            case "strong": return `**${markdown(node.content)}**`
+            case "emphasis": return `_${markdown(node.content)}_`
+            case "link": return `[${markdown(node.content)}](${node.href})`
+            default: return `<${node.type}>`
+        }
+    }).join("")
+}
+
+describe("TextMerge.mergeText", () => {
+    it("merges edits to different parts of the same text", () => {
+        expect(TextMerge.mergeText("The quick fox", "A quick fox", "The quick fox jumps")).toBe("A quick fox jumps")
+        expect(TextMerge.mergeText("one two three", "one 2 three", "one two 3")).toBe("one 2 3")
+    })
+
+    it("refuses edits to the same characters", () => {
+        expect(TextMerge.mergeText("The quick fox", "The fast fox", "The slow fox")).toBeNull()
+    })
+
+    it("takes an identical edit from both sides once", () => {
+        expect(TextMerge.mergeText("colour", "color", "color")).toBe("color")
+    })
+})
+
+describe("TextMerge.mergeInlines", () => {
+    it("merges edits on either side of a formatting boundary", () => {
+        const base = [text("Hello "), strong(text("world")), text("!")]
+        const ours = [text("Hi "), strong(text("world")), text("!")]
+        const theirs = [text("Hello "), strong(text("wide world")), text("!"), link("https://example.com", text("docs"))]
+
+        const merged = TextMerge.mergeInlines(base, ours, theirs, store)
+        expect(markdown(merged!)).toBe("Hi **wide world**![docs](https://example.com)")
+    })
+
+    it("rebuilds nested wrappers around characters merged from both sides", () => {
+        const base = [text("a "), strong(text("b "), emphasis(text("c"))), text(" d")]
+        const ours = [text("a "), strong(text("bb "), emphasis(text("c"))), text(" d")]
+        const theirs = [text("a "), strong(text("b "), emphasis(text("cc"))), text(" D")]
+
+        const merged = TextMerge.mergeInlines(base, ours, theirs, store)
+        expect(markdown(merged!)).toBe("a **bb _cc_** D")
+    })
+
+    it("treats a formatting change as a change to those characters", () => {
+        const base = [text("plain words")]
+        const ours = [text("plain "), strong(text("words"))]
+        const theirs = [text("plain sentence")]
+
+        expect(TextMerge.mergeInlines(base, ours, theirs, store)).toBeNull()
+        expect(markdown(TextMerge.mergeInlines(base, ours, [text("Plain words")], store)!)).toBe("Plain **words**")
+    })
+})
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import { BlockNode, Paragraph, Text } from "../immutable/grammar"
+import { Paths } from "../path"
+import { VersionControl } from "../VersionControl"
+import { commitDocs, readDocs, writeDocs } from "./fixtures"
+
+// The second paragraph of notes/a, addressed in a committed tree
+function addressedRepository() {
+    const vc = new VersionControl()
+    commitDocs(vc, "base", { "notes/a": { id: "doc", paragraphs: ["first", "target", "last"] } })
+    const address = vc.createAddress(Paths.of<BlockNode>(["content", 0, "children", 0, "content", 1]))
+    return { vc, address }
+}
+
+// Text of the paragraph an address points at in the working root
+function textAt(vc: VersionControl, path: (string | number)[] | undefined): string | undefined {
+    if (!path) return undefined
+    const block = vc.resolve(vc.resolveAt(Paths.of<Paragraph>(path))!)!
+    return block.content.map(inline => (vc.resolve(inline) as Text).value).join("")
+}
+
+describe("Addresses", () => {
+    it("records the document id, the document as anchor and the path inside it", () => {
+        const { vc, address } = addressedRepository()
+        const docPath = Paths.of(["content", 0, "children", 0])
+
+        expect(address.documentId).toBe("doc")
+        expect(address.anchor).toBe(vc.resolveAt(docPath))
+        expect([...address.path]).toEqual(["content", 1])
+        expect(textAt(vc, vc.locateAddress(address))).toBe("target")
+    })
+
+    it("follows the node when blocks are inserted or deleted before it", () => {
+        const { vc, address } = addressedRepository()
+
+        writeDocs(vc, { "notes/a": { id: "doc", paragraphs: ["new", "first", "also new", "target", "last"] } })
+        expect(vc.locateAddress(address)).toEqual(["content", 0, "children", 0, "content", 3])
+
+        writeDocs(vc, { "notes/a": { id: "doc", paragraphs: ["target", "last"] } })
+        expect(vc.locateAddress(address)).toEqual(["content", 0, "children", 0, "content", 0])
+    })
+
+    it("follows an edit of the node itself and a rename of its document", () => {
+        const { vc, address } = addressedRepository()
+
+        writeDocs(vc, { "archive/renamed": { id: "doc", paragraphs: ["first", "target, edited", "last"] } })
+        expect(textAt(vc, vc.locateAddress(address))).toBe("target, edited")
+        expect(readDocs(vc)).toEqual({ "archive/renamed": ["first", "target, edited", "last"] })
+    })
+
+    it("is gone when the node or its document is deleted", () => {
+        const { vc, address } = addressedRepository()
+
+        writeDocs(vc, { "notes/a": { id: "doc", paragraphs: ["first", "last"] } })
+        expect(vc.locateAddress(address)).toBeUndefined()
+
+        writeDocs(vc, { "notes/b": ["first", "target", "last"] })
+        expect(vc.locateAddress(address)).toBeUndefined()
+    })
+
+    it("still finds the node in older commits after reanchoring on a commit", () => {
+        const { vc, address } = addressedRepository()
+        const base = vc.getCurrentBranch().commit
+
+        commitDocs(vc, "insert", { "notes/a": { id: "doc", paragraphs: ["new", "first", "target", "last"] } })
+        const [reanchored] = vc.getAddresses()
+        expect(reanchored.anchor).not.toBe(address.anchor)
+        expect([...reanchored.path]).toEqual(["content", 2])
+        expect(vc.locateAddress(reanchored, base)).toEqual(["content", 0, "children", 0, "content", 1])
+    })
+})
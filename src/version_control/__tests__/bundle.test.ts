@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest"
+import { Bundle, BundleFormat } from "../Bundle"
+import { Text } from "../immutable/grammar"
+import { VersionControl } from "../VersionControl"
+import { commitDocs, integrityIssues, readDocs, writeDocs } from "./fixtures"
+
+function sourceRepository() {
+    const vc = new VersionControl()
+    commitDocs(vc, "first", { "notes/a": ["a"] })
+    commitDocs(vc, "second", { "notes/a": ["a, edited"], "notes/b": ["b"] })
+    return vc
+}
+
+// Round-trips through the serialized form, as a bundle file does
+function transfer(bundle: Bundle): Bundle {
+    return BundleFormat.parse(BundleFormat.serialize(bundle))
+}
+
+describe("VersionControl.importBundle", () => {
+    it("fast-forwards an empty repository to the bundle's branches", () => {
+        const source = sourceRepository()
+        const target = new VersionControl()
+
+        const report = target.importBundle(transfer(source.exportBundle()))
+        expect(report.rejected).toEqual([])
+        expect(report.incomplete).toEqual([])
+        expect(report.fastForwarded.map(b => b.name)).toEqual([source.getCurrentBranch().name])
+        expect(target.getCurrentBranch().commit).toBe(source.getCurrentBranch().commit)
+        expect(readDocs(target)).toEqual({ "notes/a": ["a, edited"], "notes/b": ["b"] })
+        expect(integrityIssues(target)).toEqual([])
+    })
+
+    it("applies an incremental bundle on top of the commits it requires", () => {
+        const source = sourceRepository()
+        const target = new VersionControl()
+        target.importBundle(source.exportBundle())
+        const known = source.getCurrentBranch().commit
+
+        commitDocs(source, "third", { "notes/a": ["a, edited"], "notes/b": ["b, edited"] })
+        const bundle = source.exportBundle(undefined, { knownHeads: [known] })
+        expect(bundle.prerequisites).toEqual([known])
+
+        const report = target.importBundle(transfer(bundle))
+        expect(report.fastForwarded).toHaveLength(1)
+        expect(readDocs(target)).toEqual({ "notes/a": ["a, edited"], "notes/b": ["b, edited"] })
+        expect(integrityIssues(target)).toEqual([])
+    })
+
+    it("refuses a bundle whose prerequisites are missing", () => {
+        const source = sourceRepository()
+        const known = source.getCurrentBranch().commit
+        commitDocs(source, "third", { "notes/a": ["a, third"] })
+
+        const bundle = source.exportBundle(undefined, { knownHeads: [known] })
+        expect(() => new VersionControl().importBundle(bundle)).toThrow(/requires 1 commit/)
+    })
+
+    it("does not move a branch when a node of its history was tampered with", () => {
+        const source = sourceRepository()
+        const target = new VersionControl()
+        const head = target.getCurrentBranch().commit
+        const bundle = transfer(source.exportBundle())
+        const [id, node] = Object.entries(bundle.nodes).find(([, node]) => node.type === "text")!
+        bundle.nodes[id] = { ...node as Text, value: "tampered" }
+
+        const report = target.importBundle(bundle)
+        expect(report.rejected).toEqual([id])
+        expect(report.incomplete.map(b => b.name)).toEqual([source.getCurrentBranch().name])
+        expect(report.fastForwarded).toEqual([])
+        expect(target.getCurrentBranch().commit).toBe(head)
+        expect(integrityIssues(target)).toEqual([])
+    })
+
+    it("does not move a branch when a node of its history is missing", () => {
+        const source = sourceRepository()
+        const target = new VersionControl()
+        const head = target.getCurrentBranch().commit
+        const bundle = transfer(source.exportBundle())
+        const [id] = Object.entries(bundle.nodes).find(([, node]) => node.type === "document")!
+        delete bundle.nodes[id]
+
+        const report = target.importBundle(bundle)
+        expect(report.incomplete).toHaveLength(1)
+        expect(target.getCurrentBranch().commit).toBe(head)
+        expect(integrityIssues(target)).toEqual([])
+    })
+
+    it("leaves the checked-out branch alone while it has uncommitted changes", () => {
+        const source = sourceRepository()
+        const target = new VersionControl()
+        target.importBundle(source.exportBundle())
+        commitDocs(source, "third", { "notes/a": ["a, third"] })
+
+        writeDocs(target, { "notes/a": ["local edit"] })
+        const head = target.getCurrentBranch().commit
+        const report = target.importBundle(transfer(source.exportBundle()))
+        expect(report.skipped.map(b => b.name)).toEqual([target.getCurrentBranch().name])
+        expect(report.fastForwarded).toEqual([])
+        expect(target.getCurrentBranch().commit).toBe(head)
+        expect(readDocs(target)).toEqual({ "notes/a": ["local edit"] })
+    })
+
+    it("reports a diverged branch and leaves it untouched", () => {
+        const source = sourceRepository()
+        const target = new VersionControl()
+        target.importBundle(source.exportBundle())
+
+        commitDocs(source, "theirs", { "notes/a": ["theirs"] })
+        commitDocs(target, "ours", { "notes/a": ["ours"] })
+        const head = target.getCurrentBranch().commit
+
+        const report = target.importBundle(transfer(source.exportBundle()))
+        expect(report.diverged.map(b => b.name)).toEqual([target.getCurrentBranch().name])
+        expect(target.getCurrentBranch().commit).toBe(head)
+        expect(readDocs(target)).toEqual({ "notes/a": ["ours"] })
+    })
+})
+
+describe("BundleFormat.parse", () => {
+    it("rejects text that is not a bundle of this version", () => {
+        expect(() => BundleFormat.parse(JSON.stringify({ format: "zip" }))).toThrow(/Not a merkurial bundle/)
+        expect(() => BundleFormat.parse(JSON.stringify({ format: "merkurial-bundle", version: 2 })))
+            .toThrow(/Unsupported bundle version 2/)
+    })
+})
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+import { VersionControl } from "../VersionControl"
+import { commitDocs, integrityIssues, putDocument, readDocs, writeDocs } from "./fixtures"
+
+// A feature branch with two commits on top of default
+function featureRepository() {
+    const vc = new VersionControl()
+    commitDocs(vc, "base", { "notes/a": ["a"], "notes/b": ["b"] })
+    const main = vc.getCurrentBranch()
+    const feature = vc.createBranch("feature")
+    vc.checkout(feature)
+    commitDocs(vc, "edit a", { "notes/a": ["a, edited"], "notes/b": ["b"] })
+    const editA = feature.commit
+    commitDocs(vc, "edit b", { "notes/a": ["a, edited"], "notes/b": ["b, edited"] })
+    const editB = feature.commit
+    return { vc, main, feature, editA, editB }
+}
+
+describe("VersionControl.cherryPick", () => {
+    it("applies only the picked commit's change and records its origin", () => {
+        const { vc, main, editB } = featureRepository()
+        vc.checkout(main)
+
+        const outcome = vc.cherryPick(editB)
+        const commit = vc.resolve(outcome.commit!)!
+        expect(commit.parents).toHaveLength(1)
+        expect(commit.message).toContain(`(cherry picked from commit ${editB})`)
+        expect(readDocs(vc)).toEqual({ "notes/a": ["a"], "notes/b": ["b, edited"] })
+    })
+
+    it("refuses to run over uncommitted changes and leaves them alone", () => {
+        const { vc, main, editB } = featureRepository()
+        vc.checkout(main)
+        const head = main.commit
+        writeDocs(vc, { "notes/a": ["unsaved"], "notes/b": ["b"] })
+
+        expect(() => vc.cherryPick(editB)).toThrow(/Commit or discard/)
+        expect(main.commit).toBe(head)
+        expect(readDocs(vc)).toEqual({ "notes/a": ["unsaved"], "notes/b": ["b"] })
+    })
+
+    it("commits a resolution made in the work in progress", () => {
+        const { vc, main, editA } = featureRepository()
+        vc.checkout(main)
+        commitDocs(vc, "conflicting", { "notes/a": ["a, differently"], "notes/b": ["b"] })
+
+        const { conflicts } = vc.cherryPick(editA)
+        expect(conflicts.map(c => c.path)).toEqual(["notes/a"])
+
+        const resolution = putDocument(vc, "a", ["a, resolved"])
+        vc.cherryPick(editA, { resolutions: { "notes/a": resolution } })
+        vc.checkout(main)
+        expect(readDocs(vc)["notes/a"]).toEqual(["a, resolved"])
+        expect(integrityIssues(vc)).toEqual([])
+    })
+})
+
+describe("VersionControl.revert", () => {
+    it("undoes a commit with a new one", () => {
+        const { vc, feature, editA } = featureRepository()
+
+        const outcome = vc.revert(editA, "test")
+        expect(vc.resolve(outcome.commit!)!.parents).toHaveLength(1)
+        expect(feature.commit).toBe(outcome.commit)
+        expect(readDocs(vc)).toEqual({ "notes/a": ["a"], "notes/b": ["b, edited"] })
+    })
+
+    it("needs the parent to keep when reverting a merge", () => {
+        const { vc, main, feature } = featureRepository()
+        vc.checkout(main)
+        commitDocs(vc, "on main", { "notes/a": ["a"], "notes/b": ["b"], "notes/c": ["c"] })
+        const merge = vc.merge(feature).commit!
+
+        expect(() => vc.revert(merge, "test")).toThrow(/choose the parent/)
+        vc.revert(merge, "test", { mainline: 0 })
+        expect(readDocs(vc)).toEqual({ "notes/a": ["a"], "notes/b": ["b"], "notes/c": ["c"] })
+    })
+
+    it("refuses to fold uncommitted changes into the revert", () => {
+        const { vc, feature, editA } = featureRepository()
+        const head = feature.commit
+        writeDocs(vc, { "notes/a": ["a, edited"], "notes/b": ["unsaved"] })
+
+        expect(() => vc.revert(editA, "test")).toThrow(/Commit or discard/)
+        expect(feature.commit).toBe(head)
+    })
+})
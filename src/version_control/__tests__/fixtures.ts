@@ -0,0 +1,78 @@
+import { CID } from "../cid"
+import { BlockNode, Conflict, Directory, Document, GrammarRoot, InlineNode, Paragraph } from "../immutable/grammar"
+import { TreeWalker } from "../TreeWalker"
+import { VersionControl } from "../VersionControl"
+
+/** A document's paragraphs, or the paragraphs and id when the id must differ from the name */
+type DocumentSpec = string[] | { id: string, paragraphs: string[] }
+
+/**
+ * Replace the working root with documents given by "folder/name" paths.
+ * Documents keep their name as id unless given one, so rewriting a document
+ * edits it rather than replacing it.
+ */
+export function writeDocs(vc: VersionControl, docs: Record<string, DocumentSpec>): CID<GrammarRoot> {
+    const folders = new Map<string, CID<Document>[]>()
+    for (const [path, spec] of Object.entries(docs)) {
+        const [folder, name] = path.split("/")
+        const { id, paragraphs } = Array.isArray(spec) ? { id: name, paragraphs: spec } : spec
+        const docCid = putDocument(vc, name, paragraphs, id)
+        folders.set(folder, [...(folders.get(folder) ?? []), docCid])
+    }
+
+    vc.setRoot({
+        type: "grammar_root",
+        content: [...folders].map(([name, children]) => vc.put<Directory>({ type: "folder", name, children }))
+    })
+    return vc.getWorkingRoot()
+}
+
+/**
+ * The documents of a root as "folder/name" paths to paragraph texts.
+ * Conflict blocks read as "<conflict>".
+ */
+export function readDocs(vc: VersionControl, rootCid: CID<GrammarRoot> = vc.getWorkingRoot()): Record<string, string[]> {
+    const resolve = (id: CID<any>) => vc.resolve(id)
+    return Object.fromEntries(TreeWalker.getDocuments(rootCid, resolve).map(({ path, doc }) => [
+        path,
+        doc.content.map(blockCid => {
+            const block = vc.resolve(blockCid) as BlockNode | Conflict
+            if (block.type === "conflict") return "<conflict>"
+            if (block.type !== "paragraph") return `<${block.type}>`
+            return block.content.map(inline => (vc.resolve(inline) as { value?: string }).value ?? "").join("")
+        })
+    ]))
+}
+
+/**
+ * Commit a set of documents on the current branch
+ */
+export function commitDocs(vc: VersionControl, message: string, docs: Record<string, DocumentSpec>): void {
+    writeDocs(vc, docs)
+    vc.commit(message, "test")
+}
+
+/**
+ * Store a document in the work in progress, as the editors do
+ */
+export function putDocument(vc: VersionControl, name: string, paragraphs: string[], id: string = name): CID<Document> {
+    return vc.put<Document>({
+        type: "document",
+        id,
+        name,
+        createdAt: "2024-01-01T00:00:00.000Z",
+        content: paragraphs.map(text => paragraph(vc, text))
+    })
+}
+
+/**
+ * The store's dangling references and other integrity issues, by kind
+ */
+export function integrityIssues(vc: VersionControl): string[] {
+    return vc.fsck().issues.map(issue => issue.kind)
+}
+
+function paragraph(vc: VersionControl, text: string): CID<BlockNode> {
+    const inline = vc.put<InlineNode>({ type: "text", value: text })
+    return vc.put<Paragraph>({ type: "paragraph", content: [inline] })
+}
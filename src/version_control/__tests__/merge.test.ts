@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest"
+import { cid, CID, CIDable } from "../cid"
+import { HistoryView } from "../HistoryView"
+import { Document } from "../immutable/grammar"
+import { ThreeWayMerge } from "../ThreeWayMerge"
+import { TreeWalker } from "../TreeWalker"
+import { VersionControl } from "../VersionControl"
+import { commitDocs, integrityIssues, putDocument, readDocs, writeDocs } from "./fixtures"
+
+// default and feature both edit notes/a since the base
+function divergedRepository() {
+    const vc = new VersionControl()
+    commitDocs(vc, "base", { "notes/a": ["base"], "notes/b": ["untouched"] })
+    const main = vc.getCurrentBranch()
+    const feature = vc.createBranch("feature")
+
+    vc.checkout(feature)
+    commitDocs(vc, "ours", { "notes/a": ["ours"], "notes/b": ["untouched"] })
+    vc.checkout(main)
+    commitDocs(vc, "theirs", { "notes/a": ["theirs"], "notes/b": ["untouched"] })
+    return { vc, main, feature }
+}
+
+describe("VersionControl.merge", () => {
+    it("takes each side's changes from a three-way merge", () => {
+        const vc = new VersionControl()
+        commitDocs(vc, "base", { "notes/a": ["a"], "notes/b": ["b"] })
+        const feature = vc.createBranch("feature")
+        vc.checkout(feature)
+        commitDocs(vc, "edit a", { "notes/a": ["a, edited"], "notes/b": ["b"] })
+        vc.checkout(vc.getDefaultBranch())
+        commitDocs(vc, "edit b", { "notes/a": ["a"], "notes/b": ["b, edited"] })
+
+        const outcome = vc.merge(feature)
+        expect(outcome.conflicts).toEqual([])
+        expect(vc.resolve(outcome.commit!)!.parents).toHaveLength(2)
+        expect(readDocs(vc)).toEqual({ "notes/a": ["a, edited"], "notes/b": ["b, edited"] })
+    })
+
+    it("reports paths both sides changed and commits nothing", () => {
+        const { vc, main, feature } = divergedRepository()
+        const head = main.commit
+
+        const outcome = vc.merge(feature)
+        expect(outcome.commit).toBeNull()
+        expect(outcome.conflicts.map(c => c.path)).toEqual(["notes/a"])
+        expect(main.commit).toBe(head)
+    })
+
+    it("persists a resolution that only exists as work in progress", () => {
+        const { vc, main, feature } = divergedRepository()
+        vc.checkout(feature)
+        // Edited by hand while reviewing on the feature branch
+        const resolution = putDocument(vc, "a", ["ours and theirs"])
+
+        const outcome = vc.merge(feature, { into: main, resolutions: { "notes/a": resolution } })
+        expect(outcome.conflicts).toEqual([])
+        expect(vc.getCurrentBranch()).toBe(feature)
+
+        vc.checkout(main)
+        expect(readDocs(vc)).toEqual({ "notes/a": ["ours and theirs"], "notes/b": ["untouched"] })
+        expect(integrityIssues(vc)).toEqual([])
+    })
+
+    it("commits a document assembled block by block from both sides and hand edits", () => {
+        const { vc, main, feature } = divergedRepository()
+        vc.checkout(feature)
+        const resolve = <T extends CIDable>(id: CID<T>) => vc.resolve(id)
+        const docAt = (branch: typeof main) =>
+            TreeWalker.findDocumentByPath(vc.resolve(branch.commit)!.content, "notes/a", resolve)!.doc
+        const store = { put: vc.put.bind(vc), get: resolve }
+
+        const [hunk] = ThreeWayMerge.alignBlocks([], docAt(feature).content, docAt(main).content, store)
+        const edited = putDocument(vc, "scratch", ["by hand"])
+        const resolution = vc.put<Document>({
+            ...docAt(feature),
+            content: [...hunk.ours, ...hunk.theirs, ...vc.resolve(edited)!.content]
+        })
+
+        vc.merge(feature, { into: main, resolutions: { "notes/a": resolution } })
+        vc.checkout(main)
+        expect(readDocs(vc)["notes/a"]).toEqual(["ours", "theirs", "by hand"])
+        expect(integrityIssues(vc)).toEqual([])
+    })
+
+    it("refuses a resolution whose content is not stored", () => {
+        const { vc, main, feature } = divergedRepository()
+        const head = main.commit
+        const missing = cid<Document>({ type: "document", name: "a", createdAt: "", content: [] })
+
+        expect(() => vc.merge(feature, { resolutions: { "notes/a": missing } })).toThrow(/not stored/)
+        expect(main.commit).toBe(head)
+    })
+})
+
+describe("VersionControl.merge with conflict blocks", () => {
+    it("commits conflicting regions as conflict blocks into the target branch", () => {
+        const { vc, main, feature } = divergedRepository()
+
+        const outcome = vc.merge(main, { into: feature, conflictBlocks: true })
+        expect(outcome.conflicts).toEqual([])
+        expect(feature.commit).toBe(outcome.commit)
+
+        vc.checkout(feature)
+        expect(readDocs(vc)).toEqual({ "notes/a": ["<conflict>"], "notes/b": ["untouched"] })
+        expect(integrityIssues(vc)).toEqual([])
+    })
+
+    it("refuses to commit a tree with conflict blocks to the default branch", () => {
+        const { vc, main, feature } = divergedRepository()
+        vc.merge(main, { into: feature, conflictBlocks: true })
+        const head = main.commit
+
+        vc.setWorkingRoot(vc.resolve(feature.commit)!.content)
+        expect(() => vc.commit("conflicted", "test")).toThrow(/Resolve all conflicts before committing to 'default'/)
+        expect(main.commit).toBe(head)
+    })
+})
+
+describe("VersionControl.merge strategies", () => {
+    it("fast-forwards a branch that is behind without a merge commit", () => {
+        const vc = new VersionControl()
+        commitDocs(vc, "base", { "notes/a": ["base"] })
+        const main = vc.getCurrentBranch()
+        const feature = vc.createBranch("feature")
+        vc.checkout(feature)
+        commitDocs(vc, "feature work", { "notes/a": ["feature"] })
+        vc.checkout(main)
+
+        const outcome = vc.merge(feature, { strategy: "fast-forward" })
+        expect(outcome.commit).toBe(feature.commit)
+        expect(main.commit).toBe(feature.commit)
+        expect(readDocs(vc)).toEqual({ "notes/a": ["feature"] })
+    })
+
+    it("records a merge commit when a fast-forward is not possible", () => {
+        const vc = new VersionControl()
+        commitDocs(vc, "base", { "notes/a": ["a"], "notes/b": ["b"] })
+        const main = vc.getCurrentBranch()
+        const feature = vc.createBranch("feature")
+        vc.checkout(feature)
+        commitDocs(vc, "edit a", { "notes/a": ["a, edited"], "notes/b": ["b"] })
+        vc.checkout(main)
+        commitDocs(vc, "edit b", { "notes/a": ["a"], "notes/b": ["b, edited"] })
+
+        const outcome = vc.merge(feature, { strategy: "fast-forward" })
+        expect(vc.resolve(outcome.commit!)!.parents).toHaveLength(2)
+        expect(readDocs(vc)).toEqual({ "notes/a": ["a, edited"], "notes/b": ["b, edited"] })
+    })
+
+    it("squashes the branch into one commit with a single parent", () => {
+        const vc = new VersionControl()
+        commitDocs(vc, "base", { "notes/a": ["base"] })
+        const main = vc.getCurrentBranch()
+        const head = main.commit
+        const feature = vc.createBranch("feature")
+        vc.checkout(feature)
+        commitDocs(vc, "first step", { "notes/a": ["one"] })
+        commitDocs(vc, "second step", { "notes/a": ["two"] })
+        vc.checkout(main)
+
+        const outcome = vc.merge(feature, { strategy: "squash" })
+        const squash = vc.resolve(outcome.commit!)!
+        expect(squash.parents).toEqual([head])
+        expect(squash.message).toContain("* first step")
+        expect(squash.message).toContain("* second step")
+        expect(readDocs(vc)).toEqual({ "notes/a": ["two"] })
+        expect(HistoryView.isAncestor(feature.commit, main.commit, (id) => vc.resolve(id))).toBe(false)
+    })
+})
+
+describe("ThreeWayMerge.mergeRoots", () => {
+    it("keeps a rename from one side alongside an edit from the other", () => {
+        const vc = new VersionControl()
+        const base = writeDocs(vc, { "notes/a": { id: "doc", paragraphs: ["base"] } })
+        const ours = writeDocs(vc, { "notes/renamed": { id: "doc", paragraphs: ["base"] } })
+        const theirs = writeDocs(vc, { "notes/a": { id: "doc", paragraphs: ["edited"] } })
+
+        const result = ThreeWayMerge.mergeRoots(base, ours, theirs, mergeStore(vc))
+        expect(result.conflicts).toEqual([])
+        expect(readDocs(vc, result.root)).toEqual({ "notes/renamed": ["edited"] })
+    })
+
+    it("reports a conflict when both sides rename a document differently", () => {
+        const vc = new VersionControl()
+        const base = writeDocs(vc, { "notes/a": { id: "doc", paragraphs: ["text"] } })
+        const ours = writeDocs(vc, { "notes/ours": { id: "doc", paragraphs: ["text"] } })
+        const theirs = writeDocs(vc, { "notes/theirs": { id: "doc", paragraphs: ["text"] } })
+
+        const result = ThreeWayMerge.mergeRoots(base, ours, theirs, mergeStore(vc))
+        expect(result.conflicts).toHaveLength(1)
+        expect(readDocs(vc, result.root)).toEqual({ "notes/ours": ["text"] })
+    })
+})
+
+function mergeStore(vc: VersionControl) {
+    return { put: vc.put.bind(vc), get: <T extends CIDable>(id: CID<T>) => vc.resolve(id) }
+}
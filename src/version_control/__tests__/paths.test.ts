@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest"
+import { Directory, Document } from "../immutable/grammar"
+import { Paths } from "../path"
+import { VersionControl } from "../VersionControl"
+import { putDocument, readDocs, writeDocs } from "./fixtures"
+
+// notes holds the same document twice, so only their position tells them apart
+function twinRepository() {
+    const vc = new VersionControl()
+    writeDocs(vc, { "notes/a": ["same"] })
+    const notes = Paths.of<Directory>(["content", 0])
+    const folder = vc.resolve(vc.resolveAt(notes)!)!
+    vc.updateAt(notes, { ...folder, children: [folder.children[0], folder.children[0]] })
+    return vc
+}
+
+describe("Paths and VersionControl.updateAt", () => {
+    it("replaces a nested document by its path only", () => {
+        const vc = twinRepository()
+        const first = Paths.of<Document>(["content", 0, "children", 0])
+        const second = Paths.of<Document>(["content", 0, "children", 1])
+        const before = vc.resolveAt(second)
+        expect(vc.resolveAt(first)).toBe(before)
+
+        const edited = putDocument(vc, "a", ["edited"])
+        vc.updateAt(first, vc.resolve(edited)!)
+        expect(vc.resolveAt(first)).toBe(edited)
+        expect(vc.resolveAt(second)).toBe(before)
+    })
+
+    it("refuses a path that leads nowhere and leaves the tree alone", () => {
+        const vc = twinRepository()
+        const root = vc.getWorkingRoot()
+        const missing = Paths.of<Document>(["content", 0, "children", 5])
+        const node = vc.resolve(putDocument(vc, "c", ["c"]))!
+
+        expect(vc.resolveAt(missing)).toBeUndefined()
+        expect(() => vc.updateAt(missing, node)).toThrow(/no item 5 in children/)
+        expect(() => vc.updateAt(Paths.of<Document>(["nothing"]), node)).toThrow(/no CID at nothing/)
+        expect(vc.getWorkingRoot()).toBe(root)
+    })
+
+    it("replaces a folder entry of the root", () => {
+        const vc = new VersionControl()
+        writeDocs(vc, { "notes/a": ["a"], "drafts/b": ["b"] })
+        const drafts = Paths.of<Directory>(["content", 1])
+
+        vc.updateAt(drafts, { ...vc.resolve(vc.resolveAt(drafts)!)!, name: "archive" })
+        expect(readDocs(vc)).toEqual({ "notes/a": ["a"], "archive/b": ["b"] })
+    })
+})
@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from "vitest"
+import { cid, CID, CIDable } from "../cid"
+import { Commit } from "../immutable/commit"
+import { GrammarRoot } from "../immutable/grammar"
+import { LocalRemote } from "../remote/LocalRemote"
+import { Negotiation } from "../remote/Negotiation"
+import { VersionControl } from "../VersionControl"
+import { commitDocs, integrityIssues, readDocs, writeDocs } from "./fixtures"
+
+function pushedRepositories() {
+    const local = new VersionControl()
+    const server = new VersionControl()
+    const remote = new LocalRemote(server, "origin")
+    commitDocs(local, "first", { "notes/a": ["one"] })
+    commitDocs(local, "second", { "notes/a": ["two"] })
+    return { local, server, remote }
+}
+
+describe("VersionControl.push", () => {
+    it("uploads the branch and moves the remote branch to its head", async () => {
+        const { local, server, remote } = pushedRepositories()
+
+        await local.push(remote)
+        expect(server.getCurrentBranch().commit).toBe(local.getCurrentBranch().commit)
+        expect(readDocs(server)).toEqual({ "notes/a": ["two"] })
+        expect(integrityIssues(server)).toEqual([])
+    })
+
+    it("only offers the commits the remote's heads do not reach", async () => {
+        const { local, remote } = pushedRepositories()
+        await local.push(remote)
+        commitDocs(local, "third", { "notes/a": ["three"] })
+
+        const negotiatePush = vi.spyOn(remote, "negotiatePush")
+        await local.push(remote)
+        expect(negotiatePush).toHaveBeenCalledWith([local.getCurrentBranch().commit])
+    })
+
+    it("completes a commit an earlier push left without its tree", async () => {
+        const { local, server, remote } = pushedRepositories()
+        const head = local.getCurrentBranch().commit
+        // An interrupted upload: the commit arrived, its tree did not
+        server.receiveNodes([local.resolve(head)!])
+
+        expect(Negotiation.lackingCommits([head], (id) => server.resolve(id))).toEqual([head])
+        await local.push(remote)
+        expect(readDocs(server)).toEqual({ "notes/a": ["two"] })
+        expect(integrityIssues(server)).toEqual([])
+    })
+})
+
+describe("VersionControl.compareAndSwapBranch", () => {
+    it("refuses to move a checked-out branch with uncommitted changes", async () => {
+        const { local, server, remote } = pushedRepositories()
+        await local.push(remote)
+        commitDocs(local, "third", { "notes/a": ["three"] })
+        writeDocs(server, { "notes/a": ["edited on the server"] })
+        const head = server.getCurrentBranch().commit
+
+        await expect(local.push(remote)).rejects.toThrow(/checked out with uncommitted changes/)
+        expect(server.getCurrentBranch().commit).toBe(head)
+        expect(readDocs(server)).toEqual({ "notes/a": ["edited on the server"] })
+    })
+
+    it("refuses to move a branch to a commit whose tree is missing", () => {
+        const { local, server } = pushedRepositories()
+        const head = local.getCurrentBranch().commit
+        const branch = server.getCurrentBranch()
+        server.receiveNodes([local.resolve(head)!])
+
+        expect(() => server.compareAndSwapBranch({ ...branch, expected: branch.commit, commit: head }))
+            .toThrow(/not been fully uploaded/)
+    })
+})
+
+describe("VersionControl.pull", () => {
+    it("fast-forwards the current branch to the remote's head", async () => {
+        const { local, server, remote } = pushedRepositories()
+        await local.push(remote)
+        const clone = new VersionControl()
+        await clone.pull(new LocalRemote(server, "origin"))
+
+        commitDocs(local, "third", { "notes/a": ["three"] })
+        await local.push(remote)
+        await clone.pull(new LocalRemote(server, "origin"))
+        expect(clone.getCurrentBranch().commit).toBe(local.getCurrentBranch().commit)
+        expect(readDocs(clone)).toEqual({ "notes/a": ["three"] })
+    })
+
+    it("refuses to pull into a branch with uncommitted changes", async () => {
+        const { local, server, remote } = pushedRepositories()
+        await local.push(remote)
+        const clone = new VersionControl()
+        const origin = new LocalRemote(server, "origin")
+        await clone.pull(origin)
+
+        commitDocs(local, "third", { "notes/a": ["three"] })
+        await local.push(remote)
+        writeDocs(clone, { "notes/a": ["local edit"] })
+        const head = clone.getCurrentBranch().commit
+
+        await expect(clone.pull(origin)).rejects.toThrow(/Commit or discard/)
+        expect(clone.getCurrentBranch().commit).toBe(head)
+        expect(readDocs(clone)).toEqual({ "notes/a": ["local edit"] })
+    })
+})
+
+// A linear history of `length` commits over one empty tree, in a plain map
+function linearHistory(length: number) {
+    const nodes = new Map<string, CIDable>()
+    const store = <T extends CIDable>(node: T): CID<T> => {
+        const id = cid(node)
+        nodes.set(id, node)
+        return id
+    }
+    const content = store<GrammarRoot>({ type: "grammar_root", content: [] })
+    const commits: CID<Commit>[] = []
+    for (let i = 0; i < length; i++) {
+        commits.push(store<Commit>({
+            type: "commit",
+            parents: commits.slice(-1),
+            content,
+            author: "test",
+            timestamp: "2024-01-01T00:00:00.000Z",
+            message: `commit ${i}`
+        }))
+    }
+    return { nodes, commits }
+}
+
+describe("Negotiation.hasClosure", () => {
+    it("walks a history deeper than the call stack", () => {
+        const { nodes, commits } = linearHistory(20_000)
+        const resolve = <T extends CIDable>(id: CID<T>) => nodes.get(id) as T | undefined
+
+        expect(Negotiation.hasClosure(commits[commits.length - 1], resolve)).toBe(true)
+        nodes.delete(commits[0])
+        expect(Negotiation.hasClosure(commits[commits.length - 1], resolve)).toBe(false)
+    })
+
+    it("stops at heads known to be complete", () => {
+        const { nodes, commits } = linearHistory(100)
+        const resolved: string[] = []
+        const resolve = <T extends CIDable>(id: CID<T>) => {
+            resolved.push(id)
+            return nodes.get(id) as T | undefined
+        }
+
+        expect(Negotiation.lackingCommits(commits.slice(-2), resolve, [commits[97]])).toEqual([])
+        // The two offered commits and the tree they share
+        expect(new Set(resolved).size).toBe(3)
+    })
+})
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+import { HistoryView } from "../HistoryView"
+import { VersionControl } from "../VersionControl"
+import { commitDocs, integrityIssues, putDocument, readDocs } from "./fixtures"
+
+// feature edits notes/a twice while default edits notes/b, or notes/a too when conflicting
+function rebaseRepository(conflicting = false) {
+    const vc = new VersionControl()
+    commitDocs(vc, "base", { "notes/a": ["a"], "notes/b": ["b"] })
+    const main = vc.getCurrentBranch()
+    const feature = vc.createBranch("feature")
+    vc.checkout(feature)
+    commitDocs(vc, "first", { "notes/a": ["a1"], "notes/b": ["b"] })
+    commitDocs(vc, "second", { "notes/a": ["a2"], "notes/b": ["b"] })
+    vc.checkout(main)
+    commitDocs(vc, "on main", conflicting
+        ? { "notes/a": ["a on main"], "notes/b": ["b"] }
+        : { "notes/a": ["a"], "notes/b": ["b on main"] })
+    vc.checkout(feature)
+    return { vc, main, feature }
+}
+
+describe("VersionControl.rebase", () => {
+    it("replays the branch's commits on top of onto's head", () => {
+        const { vc, main, feature } = rebaseRepository()
+        const before = feature.commit
+
+        const outcome = vc.rebase(main)
+        expect(outcome.conflicts).toEqual([])
+        expect(feature.commit).toBe(outcome.head)
+        const replayed = HistoryView.commitsSince(feature.commit, main.commit, (id) => vc.resolve(id))
+        expect(replayed.map(id => vc.resolve(id)!.message)).toEqual(["first", "second"])
+        expect(vc.resolve(replayed[0])!.parents).toEqual([main.commit])
+        expect(readDocs(vc)).toEqual({ "notes/a": ["a2"], "notes/b": ["b on main"] })
+
+        vc.undoRebase(feature)
+        expect(feature.commit).toBe(before)
+    })
+
+    it("pauses on a conflict and blocks anything that would be lost by continuing", () => {
+        const { vc, main, feature } = rebaseRepository(true)
+        const before = feature.commit
+
+        const outcome = vc.rebase(main)
+        expect(outcome.head).toBeNull()
+        expect(outcome.conflicts.map(c => c.path)).toEqual(["notes/a"])
+        expect(vc.getRebaseState()).not.toBeNull()
+        expect(() => vc.commit("during the pause", "test")).toThrow(/rebase is paused/)
+        expect(() => vc.checkout(main)).toThrow(/rebase is paused/)
+        expect(() => vc.merge(main)).toThrow(/rebase is paused/)
+        expect(() => vc.createBranch("during the pause")).toThrow(/rebase is paused/)
+        expect(() => vc.createBranch("carried", { carryWorkingState: true })).toThrow(/rebase is paused/)
+        expect(feature.commit).toBe(before)
+
+        vc.abortRebase()
+        expect(vc.getRebaseState()).toBeNull()
+        expect(feature.commit).toBe(before)
+    })
+
+    it("continues with a resolution made in the work in progress", () => {
+        const { vc, main, feature } = rebaseRepository(true)
+        vc.rebase(main)
+
+        // The second commit edits the resolved text again and stops once more
+        const first = putDocument(vc, "a", ["a1 and a on main"])
+        const paused = vc.continueRebase({ resolutions: { "notes/a": first } })
+        expect(paused.conflicts.map(c => c.path)).toEqual(["notes/a"])
+
+        const second = putDocument(vc, "a", ["a2 and a on main"])
+        const outcome = vc.continueRebase({ resolutions: { "notes/a": second } })
+        expect(outcome.conflicts).toEqual([])
+        expect(feature.commit).toBe(outcome.head)
+        expect(readDocs(vc)["notes/a"]).toEqual(["a2 and a on main"])
+        expect(integrityIssues(vc)).toEqual([])
+    })
+
+    it("aborts instead of continuing when the branch moved during the pause", () => {
+        const { vc, main, feature } = rebaseRepository(true)
+        vc.rebase(main)
+        const moved = main.commit
+        feature.commit = moved
+
+        expect(() => vc.continueRebase()).toThrow(/moved while the rebase was paused/)
+        expect(vc.getRebaseState()).toBeNull()
+        expect(feature.commit).toBe(moved)
+    })
+})
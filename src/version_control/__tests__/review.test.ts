@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest"
+import { CID, CIDable } from "../cid"
+import { GrammarRoot } from "../immutable/grammar"
+import { Review } from "../Review"
+import { TreeWalker } from "../TreeWalker"
+import { VersionControl } from "../VersionControl"
+import { commitDocs, readDocs, writeDocs } from "./fixtures"
+
+// Categories of the feature root merged into the base root, as paths
+function categorize(vc: VersionControl, ancestor: CID<GrammarRoot>, feature: CID<GrammarRoot>, base: CID<GrammarRoot>) {
+    const resolve = <T extends CIDable>(id: CID<T>) => vc.resolve(id)
+    const docs = (root: CID<GrammarRoot>) => TreeWalker.getDocuments(root, resolve)
+    return Review.categorize(docs(ancestor), docs(feature), docs(base), { put: vc.put.bind(vc), get: resolve })
+}
+
+describe("Review.categorize", () => {
+    it("sorts documents by which side changed them", () => {
+        const vc = new VersionControl()
+        const ancestor = writeDocs(vc, {
+            "notes/same": ["same"],
+            "notes/edited": ["before"],
+            "notes/gone": ["gone"],
+            "notes/both": ["before"]
+        })
+        const feature = writeDocs(vc, {
+            "notes/same": ["same"],
+            "notes/edited": ["after"],
+            "notes/new": ["new"],
+            "notes/both": ["ours"]
+        })
+        const base = writeDocs(vc, {
+            "notes/same": ["same"],
+            "notes/edited": ["before"],
+            "notes/gone": ["gone"],
+            "notes/both": ["theirs"]
+        })
+
+        const { added, modified, deleted, conflicts, deleteConflicts, unchanged } = categorize(vc, ancestor, feature, base)
+        expect(unchanged.map(d => d.path)).toEqual(["notes/same"])
+        expect(modified.map(m => [m.feature.path, m.merged])).toEqual([["notes/edited", false]])
+        expect(added.map(d => d.path)).toEqual(["notes/new"])
+        expect(deleted.map(d => d.path)).toEqual(["notes/gone"])
+        expect(conflicts.map(c => [c.feature.path, c.ancestor?.path])).toEqual([["notes/both", "notes/both"]])
+        expect(deleteConflicts).toEqual([])
+    })
+
+    it("reports renamed and moved documents as modified, with the path they had", () => {
+        const vc = new VersionControl()
+        const ancestor = writeDocs(vc, { "notes/old": { id: "r", paragraphs: ["r"] }, "notes/m": { id: "m", paragraphs: ["m"] } })
+        const feature = writeDocs(vc, { "notes/new": { id: "r", paragraphs: ["r"] }, "archive/m": { id: "m", paragraphs: ["m"] } })
+
+        const { modified, added, deleted } = categorize(vc, ancestor, feature, ancestor)
+        expect(modified.map(m => [m.feature.path, m.previousPath])).toEqual([
+            ["notes/new", "notes/old"],
+            ["archive/m", "notes/m"]
+        ])
+        expect(added).toEqual([])
+        expect(deleted).toEqual([])
+    })
+
+    it("reports a delete on one side and an edit on the other, from either side", () => {
+        const vc = new VersionControl()
+        const ancestor = writeDocs(vc, { "notes/a": ["a"], "notes/b": ["b"] })
+        const feature = writeDocs(vc, { "notes/a": ["a, edited"] })
+        const base = writeDocs(vc, { "notes/b": ["b, edited"] })
+
+        const { deleteConflicts } = categorize(vc, ancestor, feature, base)
+        expect(deleteConflicts.map(({ path, feature, base }) => [path, feature?.path, base?.path])).toEqual([
+            ["notes/a", "notes/a", undefined],
+            ["notes/b", undefined, "notes/b"]
+        ])
+    })
+})
+
+describe("Review.deletedFolders", () => {
+    it("lists folders only the feature branch removed", () => {
+        expect(Review.deletedFolders(["a/", "b/", "c/"], ["a/"], ["a/", "b/"])).toEqual(["b/"])
+    })
+})
+
+describe("Review.deleteResolutions", () => {
+    // feature edits notes/a, which main deletes
+    function deleteVersusEdit() {
+        const vc = new VersionControl()
+        commitDocs(vc, "base", { "notes/a": ["a"], "notes/b": ["b"] })
+        const main = vc.getCurrentBranch()
+        const ancestor = vc.getWorkingRoot()
+        const feature = vc.createBranch("feature")
+        vc.checkout(feature)
+        commitDocs(vc, "edit a", { "notes/a": ["a, edited"], "notes/b": ["b"] })
+        vc.checkout(main)
+        commitDocs(vc, "delete a", { "notes/b": ["b"] })
+
+        const featureRoot = vc.resolve(feature.commit)!.content
+        const { deleteConflicts } = categorize(vc, ancestor, featureRoot, vc.getWorkingRoot())
+        return { vc, feature, deleteConflicts }
+    }
+
+    it("only resolves the conflicts that have a choice", () => {
+        const { deleteConflicts } = deleteVersusEdit()
+        expect(Review.deleteResolutions(deleteConflicts, {})).toEqual({})
+    })
+
+    it("keeps the edited document", () => {
+        const { vc, feature, deleteConflicts } = deleteVersusEdit()
+        const resolutions = Review.deleteResolutions(deleteConflicts, { "notes/a": "keep" })
+        expect(resolutions["notes/a"]).toBe(deleteConflicts[0].feature!.cid)
+
+        const outcome = vc.merge(feature, { resolutions })
+        expect(outcome.conflicts).toEqual([])
+        expect(readDocs(vc)).toEqual({ "notes/a": ["a, edited"], "notes/b": ["b"] })
+    })
+
+    it("deletes the edited document", () => {
+        const { vc, feature, deleteConflicts } = deleteVersusEdit()
+        const resolutions = Review.deleteResolutions(deleteConflicts, { "notes/a": "delete" })
+        expect(resolutions).toEqual({ "notes/a": null })
+
+        const outcome = vc.merge(feature, { resolutions })
+        expect(outcome.conflicts).toEqual([])
+        expect(readDocs(vc)).toEqual({ "notes/b": ["b"] })
+    })
+})
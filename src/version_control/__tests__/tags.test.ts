@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest"
+import { CID } from "../cid"
+import { Commit } from "../immutable/commit"
+import { VersionControl } from "../VersionControl"
+import { commitDocs, readDocs } from "./fixtures"
+
+describe("VersionControl tags", () => {
+    it("names the current commit and keeps pointing at it as the branch moves", () => {
+        const vc = new VersionControl()
+        commitDocs(vc, "release", { "notes/a": ["released"] })
+        const release = vc.getCurrentBranch().commit
+
+        vc.createTag(" v1.0 ", "First release", "test")
+        commitDocs(vc, "later", { "notes/a": ["later"] })
+
+        const [{ tag }] = vc.getTags()
+        expect(tag).toMatchObject({ type: "tag", name: "v1.0", target: release, message: "First release" })
+        expect(readDocs(vc, vc.resolve(tag.target)!.content)).toEqual({ "notes/a": ["released"] })
+    })
+
+    it("tags an older commit and lists tags by name", () => {
+        const vc = new VersionControl()
+        commitDocs(vc, "first", { "notes/a": ["one"] })
+        const first = vc.getCurrentBranch().commit
+        commitDocs(vc, "second", { "notes/a": ["two"] })
+
+        vc.createTag("b", "", "test")
+        vc.createTag("a", "", "test", first)
+        expect(vc.getTags().map(({ tag }) => [tag.name, tag.target])).toEqual([
+            ["a", first],
+            ["b", vc.getCurrentBranch().commit]
+        ])
+    })
+
+    it("refuses empty and duplicate names, and targets that are not commits", () => {
+        const vc = new VersionControl()
+        commitDocs(vc, "release", { "notes/a": ["released"] })
+        vc.createTag("v1.0", "", "test")
+
+        expect(() => vc.createTag("  ", "", "test")).toThrow(/cannot be empty/)
+        expect(() => vc.createTag("v1.0", "", "test")).toThrow(/already exists/)
+        const root = vc.getWorkingRoot() as unknown as CID<Commit>
+        expect(() => vc.createTag("v2.0", "", "test", root)).toThrow(/not a commit/)
+        expect(vc.getTags()).toHaveLength(1)
+    })
+
+    it("deletes a tag so its name can be reused", () => {
+        const vc = new VersionControl()
+        commitDocs(vc, "first", { "notes/a": ["one"] })
+        vc.createTag("v1.0", "", "test")
+        commitDocs(vc, "second", { "notes/a": ["two"] })
+
+        vc.deleteTag("v1.0")
+        expect(vc.getTags()).toEqual([])
+        expect(() => vc.deleteTag("v1.0")).toThrow(/does not exist/)
+
+        vc.createTag("v1.0", "", "test")
+        expect(vc.getTags()[0].tag.target).toBe(vc.getCurrentBranch().commit)
+    })
+})
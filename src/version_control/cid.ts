@@ -2,6 +2,7 @@
 import stringify from "fast-json-stable-stringify"
 import { Commit } from "./immutable/commit"
 import { BlockNode, Directory, Document, GrammarRoot, InlineNode } from "./immutable/grammar"
+import { Tag } from "./immutable/tag"
 import { bytesToHex } from "@noble/hashes/utils.js"
 import { sha256 } from "@noble/hashes/sha2.js"
 
@@ -10,6 +11,7 @@ export type CID<T> = string & { __phantom: T }
 export type CIDable = 
 | GrammarRoot 
 | Commit 
+| Tag
 | Directory 
 | Document 
 | BlockNode 
@@ -19,3 +21,10 @@ export function cid<T extends CIDable>(node: T): CID<T> {
   const encoded = new TextEncoder().encode(stringify(node))
   return bytesToHex(sha256(encoded)) as CID<T>
 }
+
+/**
+ * Whether a value has the shape of a CID: 64 lowercase hex characters
+ */
+export function isCID(value: unknown): value is CID<any> {
+  return typeof value === "string" && /^[0-9a-f]{64}$/.test(value)
+}
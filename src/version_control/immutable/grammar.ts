@@ -13,6 +13,7 @@ export type Directory = {
 
 export type Document = {
   type: "document"
+  id?: string  // Stable identity across edits, renames and moves; absent in documents created before ids existed
   name?: string
   createdAt: string  // ISO timestamp - ensures unique CID for each document
   content: CID<BlockNode>[]
@@ -30,6 +31,7 @@ export type BlockNode =
   | CodeBlock
   | BlockQuote
   | HorizontalRule
+  | Conflict
 
 export type Heading = {
   type: "heading"
@@ -68,6 +70,15 @@ export type HorizontalRule = {
   type: "horizontal_rule"
 }
 
+// A merge conflict left in the document, so the merge can be committed and
+// resolved later. Each side holds its blocks for the conflicting region.
+export type Conflict = {
+  type: "conflict"
+  base: CID<BlockNode>[]
+  ours: CID<BlockNode>[]
+  theirs: CID<BlockNode>[]
+}
+
 // -----------------------------------------------------------------------------
 // Inline Nodes
 // -----------------------------------------------------------------------------
@@ -0,0 +1,14 @@
+import { Commit } from "./commit"
+import { CID } from "../cid"
+
+/**
+ * Annotated tag: an immutable, named release snapshot of one commit
+ */
+export type Tag = {
+    type: "tag"
+    name: string
+    target: CID<Commit>
+    tagger: string
+    timestamp: string
+    message: string
+}
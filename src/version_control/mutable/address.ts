@@ -0,0 +1,19 @@
+import { CID } from "../cid"
+import { Document } from "../immutable/grammar"
+import { Path } from "../path"
+
+/**
+ * A stable reference to a document or a node inside one, such as a heading,
+ * for comments, links and selections. CIDs change with every edit and paths
+ * with every insertion above the node, so an address remembers the document
+ * as it was when the node was last located and is followed from there.
+ */
+export type Address<T> = {
+    uuid: string
+    /** Id of the document holding the node */
+    documentId: string
+    /** The document as it was when the node was last located */
+    anchor: CID<Document>
+    /** Path from the anchor document to the node; empty for the document itself */
+    path: Path<T>
+}
@@ -0,0 +1,27 @@
+import { CID } from "../cid"
+import { Commit } from "../immutable/commit"
+
+/**
+ * A rebase paused on conflicts. The branch keeps its original head until the
+ * rebase finishes.
+ */
+export type RebaseState = {
+    /** uuid of the branch being rebased */
+    branch: string
+    onto: CID<Commit>
+    originalHead: CID<Commit>
+    /** Replayed history so far */
+    head: CID<Commit>
+    /** Commits still to replay, oldest first; the first is the one that conflicted */
+    remaining: CID<Commit>[]
+}
+
+/**
+ * The last finished rebase, kept so it can be undone
+ */
+export type RebaseRecord = {
+    /** uuid of the rebased branch */
+    branch: string
+    before: CID<Commit>
+    after: CID<Commit>
+}
@@ -0,0 +1,31 @@
+import { CID } from "../cid"
+import { GrammarRoot } from "../immutable/grammar"
+import { Tag } from "../immutable/tag"
+import { Address } from "./address"
+import { Branch } from "./branch"
+import { RebaseRecord, RebaseState } from "./rebase"
+
+/**
+ * Everything mutable a repository needs besides its content store.
+ * Branches are referenced by uuid so a restored snapshot keeps object identity.
+ */
+export type RepositoryRefs = {
+    branches: Branch[]
+    archivedBranches: Branch[]
+    defaultBranch: string
+    currentBranch: string
+    workingRoot: CID<GrammarRoot>
+    /**
+     * Remote-tracking branches by remote name, as last seen on fetch.
+     * Absent in refs saved before remotes existed.
+     */
+    remoteBranches?: Record<string, Branch[]>
+    /** Addresses by uuid. Absent in refs saved before addresses existed. */
+    addresses?: Address<any>[]
+    /** A rebase paused on conflicts */
+    rebase?: RebaseState
+    /** The last finished rebase, until it is undone */
+    lastRebase?: RebaseRecord
+    /** Tag objects by tag name. Absent in refs saved before tags existed. */
+    tags?: Record<string, CID<Tag>>
+}
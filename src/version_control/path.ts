@@ -1,8 +1,106 @@
+import { CID, CIDable } from "./cid"
+import { ContentStore, Resolver } from "./store/ContentStore"
+
 /**
  * Paths are lists of field names or list indices that describe the field path from the grammar root down to specific field.
- * 
+ *
+ * A CID met along the way is resolved before stepping into it, so
+ * ["content", 0, "children", 2] is the third child of the first root folder.
+ * Unlike a CID, a path tells apart nodes with identical content.
  */
 
 type FieldName = string
 type ListIndex = number
 export type Path<T> = (FieldName | ListIndex)[] & { targetType: T }
+
+/**
+ * Building, resolving and updating through paths
+ */
+export const Paths = {
+    /**
+     * A path from its segments, typed by the node it points at
+     */
+    of<T>(segments: (FieldName | ListIndex)[]): Path<T> {
+        return segments as Path<T>
+    },
+
+    /**
+     * Extend a path by more segments
+     */
+    child<T>(path: Path<any>, ...segments: (FieldName | ListIndex)[]): Path<T> {
+        return [...path, ...segments] as Path<T>
+    },
+
+    /**
+     * Whether two paths point at the same place
+     */
+    equals(a: Path<any>, b: Path<any>): boolean {
+        return a.length === b.length && a.every((segment, i) => segment === b[i])
+    },
+
+    /**
+     * The CID a path points at from a root, or undefined if any step is missing
+     */
+    resolve<T>(rootCid: CID<any>, path: Path<T>, resolve: Resolver): CID<T> | undefined {
+        let value: unknown = rootCid
+        for (const { field, index } of toSteps(path)) {
+            const node = resolve(value as CID<CIDable>) as Record<string, unknown> | undefined
+            value = node?.[field]
+            if (index !== undefined) value = Array.isArray(value) ? value[index] : undefined
+            if (typeof value !== "string") return undefined
+        }
+        return value as CID<T>
+    },
+
+    /**
+     * Point a path at a new CID. Only the ancestors along the path are
+     * rebuilt and stored; every other reference to the old CID is left alone.
+     * Returns the new root CID.
+     */
+    replace<R>(
+        rootCid: CID<R>,
+        path: Path<any>,
+        newCid: CID<any>,
+        store: Pick<ContentStore, "put" | "get">
+    ): CID<R> {
+        const steps = toSteps(path)
+        const rebuild = (nodeCid: CID<any>, depth: number): CID<any> => {
+            if (depth === steps.length) return newCid
+
+            const node = store.get(nodeCid as CID<CIDable>)
+            if (!node) throw new Error(`Path ${path.join(".")} is missing node ${nodeCid}`)
+
+            const { field, index } = steps[depth]
+            const value = (node as Record<string, unknown>)[field]
+            let updated: unknown
+            if (index === undefined) {
+                if (typeof value !== "string") throw new Error(`Path ${path.join(".")} has no CID at ${field}`)
+                updated = rebuild(value as CID<any>, depth + 1)
+            } else {
+                if (!Array.isArray(value) || index >= value.length) {
+                    throw new Error(`Path ${path.join(".")} has no item ${index} in ${field}`)
+                }
+                updated = value.map((item, i) => i === index ? rebuild(item, depth + 1) : item)
+            }
+            return store.put({ ...node, [field]: updated } as CIDable)
+        }
+        return rebuild(rootCid, 0) as CID<R>
+    }
+}
+
+/**
+ * Pair each field name with the list index that follows it, if any
+ */
+function toSteps(path: Path<any>): { field: FieldName, index?: ListIndex }[] {
+    const steps: { field: FieldName, index?: ListIndex }[] = []
+    for (const segment of path) {
+        if (typeof segment === "number") {
+            const last = steps[steps.length - 1]
+            if (!last || last.index !== undefined) throw new Error(`Path ${path.join(".")} has an index without a list`)
+            last.index = segment
+        } else {
+            steps.push({ field: segment })
+        }
+    }
+    return steps
+}
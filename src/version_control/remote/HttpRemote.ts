@@ -0,0 +1,117 @@
+import { cid, CID, CIDable } from "../cid"
+import { Commit } from "../immutable/commit"
+import { Branch } from "../mutable/branch"
+import {
+    BranchListResponse,
+    BranchUpdateRequest,
+    BranchUpdateResponse,
+    ContentHasRequest,
+    ContentHasResponse,
+    ContentQueryRequest,
+    ContentQueryResponse,
+    ContentUploadRequest,
+    ErrorResponse,
+    PullNegotiationRequest,
+    PullNegotiationResponse,
+    PushNegotiationRequest,
+    PushNegotiationResponse,
+} from "./protocol"
+import { Remote } from "./Remote"
+
+/**
+ * Error returned by the sync server, with the HTTP status it came with
+ * (409 for a rejected compare-and-swap or non-fast-forward update)
+ */
+export class RemoteRequestError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message)
+        this.name = "RemoteRequestError"
+    }
+}
+
+/**
+ * Remote backed by the sync server's HTTP API
+ */
+export class HttpRemote implements Remote {
+    constructor(
+        private baseUrl: string = "http://localhost:4000",
+        readonly name: string = "origin"
+    ) {}
+
+    async listBranches(): Promise<Branch[]> {
+        const response = await this.request<BranchListResponse>("GET", "/api/branches")
+        return response.branches
+    }
+
+    async getNodes(cids: CID<any>[]): Promise<Record<string, CIDable>> {
+        if (cids.length === 0) return {}
+        const body: ContentQueryRequest = { cids }
+        const response = await this.request<ContentQueryResponse>("POST", "/api/content/query", body)
+        return response.nodes
+    }
+
+    async hasNodes(cids: CID<any>[]): Promise<CID<any>[]> {
+        if (cids.length === 0) return []
+        const body: ContentHasRequest = { cids }
+        const response = await this.request<ContentHasResponse>("POST", "/api/content/has", body)
+        return response.cids
+    }
+
+    async putNodes(nodes: CIDable[]): Promise<void> {
+        if (nodes.length === 0) return
+        const body: ContentUploadRequest = { nodes: {} }
+        for (const node of nodes) {
+            body.nodes[cid(node)] = node
+        }
+        await this.request("POST", "/api/content", body)
+    }
+
+    async negotiatePush(offered: CID<Commit>[]): Promise<CID<Commit>[]> {
+        const body: PushNegotiationRequest = { offered }
+        const response = await this.request<PushNegotiationResponse>("POST", "/api/negotiate/push", body)
+        return response.lacking
+    }
+
+    async negotiatePull(wants: CID<Commit>[], haves: CID<Commit>[]): Promise<CID<Commit>[]> {
+        const body: PullNegotiationRequest = { wants, haves }
+        const response = await this.request<PullNegotiationResponse>("POST", "/api/negotiate/pull", body)
+        return response.commits
+    }
+
+    async updateBranch(branch: Branch, expected: CID<Commit> | null): Promise<Branch> {
+        const body: BranchUpdateRequest = { name: branch.name, expected, commit: branch.commit }
+        const response = await this.request<BranchUpdateResponse>(
+            "POST",
+            `/api/branches/${encodeURIComponent(branch.uuid)}/commits`,
+            body
+        )
+        return response.branch
+    }
+
+    private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+        const response = await fetch(`${this.baseUrl}${path}`, {
+            method,
+            headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        })
+        const text = await response.text()
+        if (!response.ok) {
+            // Proxies and Express's default handler answer in HTML or plain text
+            const error = parseJson<ErrorResponse>(text)?.error
+            throw new RemoteRequestError(error ?? `${response.status} ${response.statusText}`.trim(), response.status)
+        }
+        const json = parseJson<T>(text)
+        if (json === undefined) {
+            throw new RemoteRequestError(`Expected JSON from ${path}`, response.status)
+        }
+        return json
+    }
+}
+
+function parseJson<T>(text: string): T | undefined {
+    try {
+        return JSON.parse(text) as T
+    } catch {
+        return undefined
+    }
+}
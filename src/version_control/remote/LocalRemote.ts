@@ -0,0 +1,47 @@
+import { CID, CIDable } from "../cid"
+import { Commit } from "../immutable/commit"
+import { Branch } from "../mutable/branch"
+import { VersionControl } from "../VersionControl"
+import { Negotiation } from "./Negotiation"
+import { Remote } from "./Remote"
+
+/**
+ * Remote backed by another VersionControl in the same process.
+ * Speaks the same protocol as the sync server, without HTTP.
+ */
+export class LocalRemote implements Remote {
+    constructor(private vc: VersionControl, readonly name: string = "local") {}
+
+    async listBranches(): Promise<Branch[]> {
+        return this.vc.getBranches().map(b => ({ ...b }))
+    }
+
+    async getNodes(cids: CID<any>[]): Promise<Record<string, CIDable>> {
+        const nodes: Record<string, CIDable> = {}
+        for (const id of cids) {
+            const node = this.vc.resolve(id as CID<CIDable>)
+            if (node) nodes[id] = node
+        }
+        return nodes
+    }
+
+    async hasNodes(cids: CID<any>[]): Promise<CID<any>[]> {
+        return cids.filter(id => this.vc.resolve(id) !== undefined)
+    }
+
+    async putNodes(nodes: CIDable[]): Promise<void> {
+        this.vc.receiveNodes(nodes)
+    }
+
+    async negotiatePush(offered: CID<Commit>[]): Promise<CID<Commit>[]> {
+        return Negotiation.lackingCommits(offered, (id) => this.vc.resolve(id), this.vc.getBranches().map(b => b.commit))
+    }
+
+    async negotiatePull(wants: CID<Commit>[], haves: CID<Commit>[]): Promise<CID<Commit>[]> {
+        return Negotiation.missingCommits(wants, haves, (id) => this.vc.resolve(id))
+    }
+
+    async updateBranch(branch: Branch, expected: CID<Commit> | null): Promise<Branch> {
+        return { ...this.vc.compareAndSwapBranch({ uuid: branch.uuid, name: branch.name, expected, commit: branch.commit }) }
+    }
+}
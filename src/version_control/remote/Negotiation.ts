@@ -0,0 +1,119 @@
+import { CID } from "../cid"
+import { Commit } from "../immutable/commit"
+import { Branch } from "../mutable/branch"
+import { HistoryView } from "../HistoryView"
+import { Resolver } from "../store/ContentStore"
+import { TreeWalker } from "../TreeWalker"
+import { BranchUpdateRequest } from "./protocol"
+
+/**
+ * Have/want negotiation over the commit DAG, shared by both ends of a sync.
+ *
+ * A branch head is assumed to have its whole closure (parents and content
+ * tree) stored, so one known head stands in for everything below it. Branches
+ * are only moved to commits whose closure has been checked, and a pushed
+ * commit only counts as present once its closure is.
+ */
+export const Negotiation = {
+    /**
+     * Commits reachable from the heads, newest first, without descending into `exclude`
+     */
+    walkCommits(heads: CID<Commit>[], resolve: Resolver, exclude: Set<string> = new Set()): CID<Commit>[] {
+        const visited = new Set<string>()
+        const result: CID<Commit>[] = []
+        const queue = [...heads]
+
+        while (queue.length > 0) {
+            const id = queue.shift()!
+            if (visited.has(id) || exclude.has(id)) continue
+            visited.add(id)
+
+            const commit = resolve(id)
+            if (commit?.type !== "commit") continue
+            result.push(id)
+            queue.push(...commit.parents)
+        }
+
+        return result
+    },
+
+    /**
+     * Serving a pull: the commits reachable from `wants` that are not reachable
+     * from the client's `haves`. Haves this side has never seen are ignored.
+     */
+    missingCommits(wants: CID<Commit>[], haves: CID<Commit>[], resolve: Resolver): CID<Commit>[] {
+        const common = new Set<string>(this.walkCommits(haves, resolve))
+        return this.walkCommits(wants, resolve, common)
+    },
+
+    /**
+     * Serving a push: which of the offered commits this side lacks, or holds
+     * only part of the closure of (e.g. after an interrupted upload)
+     * @param heads - This side's branch heads; their closures are complete,
+     *   so the check stops at them instead of walking the whole history
+     */
+    lackingCommits(offered: CID<Commit>[], resolve: Resolver, heads: CID<Commit>[] = []): CID<Commit>[] {
+        const complete = new Set<string>(heads)
+        return offered.filter(id => !this.hasClosure(id, resolve, complete))
+    },
+
+    /**
+     * Whether every node reachable from `id` is stored
+     * @param complete - Nodes known to have their closure stored, e.g. branch
+     *   heads; the walk stops at them and adds the nodes it finds complete
+     */
+    hasClosure(id: CID<any>, resolve: Resolver, complete: Set<string> = new Set()): boolean {
+        // An explicit stack, since histories are far deeper than the call stack
+        const visited = new Set<string>()
+        const stack: CID<any>[] = [id]
+        while (stack.length > 0) {
+            const next = stack.pop()!
+            if (complete.has(next) || visited.has(next)) continue
+            const node = resolve(next)
+            if (!node) return false
+            visited.add(next)
+            stack.push(...TreeWalker.getChildCids(node))
+        }
+        for (const found of visited) {
+            complete.add(found)
+        }
+        return true
+    },
+
+    /**
+     * Whether a commit is an untouched repository's empty initial commit.
+     * Such a head carries nothing, so it may be replaced by unrelated history.
+     */
+    isEmptyInitialCommit(id: CID<Commit>, resolve: Resolver): boolean {
+        const commit = resolve(id)
+        if (!commit || commit.parents.length > 0) return false
+        return resolve(commit.content)?.content.length === 0
+    },
+
+    /**
+     * Check a compare-and-swap branch update. Returns the reason it must be
+     * rejected, or null if it may be applied.
+     */
+    validateBranchUpdate(
+        current: Branch | undefined,
+        update: BranchUpdateRequest,
+        resolve: Resolver
+    ): string | null {
+        if ((current?.commit ?? null) !== update.expected) {
+            return "Branch has moved; fetch and try again"
+        }
+        if (resolve(update.commit)?.type !== "commit") {
+            return "Commit has not been uploaded"
+        }
+        // The current head's history is complete already, so only new nodes are walked
+        if (!this.hasClosure(update.commit, resolve, new Set(current ? [current.commit] : []))) {
+            return "Commit has not been fully uploaded"
+        }
+        if (update.expected
+            && !HistoryView.isAncestor(update.expected, update.commit, resolve)
+            && !this.isEmptyInitialCommit(update.expected, resolve)) {
+            return "Non-fast-forward update rejected"
+        }
+        return null
+    }
+}
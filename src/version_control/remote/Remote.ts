@@ -0,0 +1,39 @@
+import { CID, CIDable } from "../cid"
+import { Commit } from "../immutable/commit"
+import { Branch } from "../mutable/branch"
+
+/**
+ * A repository VersionControl can push to and pull from
+ */
+export interface Remote {
+    /** Name used for display, e.g. "origin" */
+    readonly name: string
+    listBranches(): Promise<Branch[]>
+    /** Fetch nodes by CID; CIDs the remote does not have are left out */
+    getNodes(cids: CID<any>[]): Promise<Record<string, CIDable>>
+    /** The subset of the CIDs the remote already has */
+    hasNodes(cids: CID<any>[]): Promise<CID<any>[]>
+    putNodes(nodes: CIDable[]): Promise<void>
+    /** Of the commits offered for a push, the ones the remote lacks */
+    negotiatePush(offered: CID<Commit>[]): Promise<CID<Commit>[]>
+    /** The commits reachable from `wants` that are not reachable from `haves` */
+    negotiatePull(wants: CID<Commit>[], haves: CID<Commit>[]): Promise<CID<Commit>[]>
+    /** Compare-and-swap a branch head; rejects unless `expected` is the current head */
+    updateBranch(branch: Branch, expected: CID<Commit> | null): Promise<Branch>
+}
+
+/**
+ * Where a local branch stands relative to its remote-tracking branch
+ */
+export type TrackingStatus = {
+    /** The remote-tracking branch, or null if the remote has no such branch */
+    remoteBranch: Branch | null
+    ahead: number
+    behind: number
+    /**
+     * - untracked: the remote has no matching branch (push creates it)
+     * - ahead/behind: one side can be fast-forwarded to the other
+     * - diverged: both sides have commits the other lacks; needs a merge
+     */
+    state: "untracked" | "up_to_date" | "ahead" | "behind" | "diverged"
+}
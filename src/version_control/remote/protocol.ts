@@ -0,0 +1,92 @@
+import { CID, CIDable } from "../cid"
+import { Commit } from "../immutable/commit"
+import { Branch } from "../mutable/branch"
+
+/**
+ * Wire types of the content/branch HTTP API, shared by the sync server
+ * and the client-side remote.
+ */
+
+/** POST /api/content */
+export type ContentUploadRequest = {
+    nodes: Record<string, CIDable>
+}
+
+export type ContentUploadResponse = {
+    stored: CID<any>[]
+}
+
+/** POST /api/content/query */
+export type ContentQueryRequest = {
+    cids: CID<any>[]
+}
+
+export type ContentQueryResponse = {
+    /** Only the requested nodes the server has */
+    nodes: Record<string, CIDable>
+}
+
+/** POST /api/content/has */
+export type ContentHasRequest = {
+    cids: CID<any>[]
+}
+
+export type ContentHasResponse = {
+    /** The subset of the requested CIDs the server has */
+    cids: CID<any>[]
+}
+
+/**
+ * POST /api/negotiate/push
+ *
+ * The client offers the commits of the history it wants to push;
+ * the server answers with the ones it lacks.
+ */
+export type PushNegotiationRequest = {
+    offered: CID<Commit>[]
+}
+
+export type PushNegotiationResponse = {
+    lacking: CID<Commit>[]
+}
+
+/**
+ * POST /api/negotiate/pull
+ *
+ * The client names the heads it wants and the heads it has;
+ * the server answers with the commits in between.
+ */
+export type PullNegotiationRequest = {
+    wants: CID<Commit>[]
+    haves: CID<Commit>[]
+}
+
+export type PullNegotiationResponse = {
+    commits: CID<Commit>[]
+}
+
+/** GET /api/branches */
+export type BranchListResponse = {
+    branches: Branch[]
+}
+
+/**
+ * POST /api/branches/:id/commits
+ *
+ * Compare-and-swap: the update only applies if the branch currently points
+ * at `expected` (null for a branch the server does not have yet), and only
+ * if `commit` descends from it.
+ */
+export type BranchUpdateRequest = {
+    name: string
+    expected: CID<Commit> | null
+    commit: CID<Commit>
+}
+
+export type BranchUpdateResponse = {
+    branch: Branch
+}
+
+export type ErrorResponse = {
+    error: string
+}
@@ -0,0 +1,39 @@
+import { CID, CIDable } from "../cid"
+import { RepositoryRefs } from "../mutable/refs"
+
+/**
+ * Content-addressed node store.
+ *
+ * Reads and writes are synchronous against the store's working set so that
+ * tree walking and rendering never have to await. Backends that persist to
+ * slower media (IndexedDB, the filesystem) write through in the background
+ * and expose `flush()` as the point where everything written so far is durable.
+ * A backend that cannot read synchronously (IndexedDB) has to keep its whole
+ * working set, i.e. the whole store, in memory.
+ */
+export interface ContentStore {
+    put<T extends CIDable>(node: T): CID<T>
+    get<T extends CIDable>(id: CID<T>): T | undefined
+    has(id: CID<any>): boolean
+    delete(id: CID<any>): void
+    clear(): void
+    entries(): IterableIterator<[string, CIDable]>
+    flush(): Promise<void>
+}
+
+/**
+ * Read-only view of a store, as used by TreeWalker, HistoryView and the projection
+ */
+export type Resolver = ContentStore["get"]
+
+/**
+ * A complete persisted repository: committed objects, work-in-progress
+ * objects and the refs pointing into them.
+ */
+export interface RepositoryStorage {
+    readonly objects: ContentStore
+    readonly workInProgress: ContentStore
+    loadRefs(): Promise<RepositoryRefs | undefined>
+    saveRefs(refs: RepositoryRefs): void
+    flush(): Promise<void>
+}
@@ -0,0 +1,91 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import { cid, CID, CIDable, isCID } from "../cid"
+import { RepositoryRefs } from "../mutable/refs"
+import { ContentStore, RepositoryStorage } from "./ContentStore"
+
+/**
+ * Content-addressed store on the local filesystem (Node only).
+ *
+ * Each node is one JSON file named by its CID, fanned out by the first two
+ * hex characters: `<root>/ab/cdef...`. Writes are synchronous, so `flush()`
+ * has nothing left to do.
+ */
+export class FileSystemStore implements ContentStore {
+    constructor(private root: string) {
+        mkdirSync(root, { recursive: true })
+    }
+
+    put<T extends CIDable>(node: T): CID<T> {
+        const id = cid(node)
+        const file = this.pathFor(id)
+        if (!existsSync(file)) {
+            mkdirSync(join(this.root, id.slice(0, 2)), { recursive: true })
+            writeFileSync(file, JSON.stringify(node))
+        }
+        return id
+    }
+
+    get<T extends CIDable>(id: CID<T>): T | undefined {
+        const file = this.pathFor(id)
+        if (!existsSync(file)) return undefined
+        return JSON.parse(readFileSync(file, "utf8")) as T
+    }
+
+    has(id: CID<any>): boolean {
+        return existsSync(this.pathFor(id))
+    }
+
+    delete(id: CID<any>): void {
+        rmSync(this.pathFor(id), { force: true })
+    }
+
+    clear(): void {
+        rmSync(this.root, { recursive: true, force: true })
+        mkdirSync(this.root, { recursive: true })
+    }
+
+    *entries(): IterableIterator<[string, CIDable]> {
+        for (const prefix of readdirSync(this.root)) {
+            for (const rest of readdirSync(join(this.root, prefix))) {
+                const id = prefix + rest
+                yield [id, JSON.parse(readFileSync(join(this.root, prefix, rest), "utf8"))]
+            }
+        }
+    }
+
+    async flush(): Promise<void> {}
+
+    // Ids often come from the network; anything but a CID could leave the root
+    private pathFor(id: string): string {
+        if (!isCID(id)) {
+            throw new Error(`Not a CID: ${JSON.stringify(id)}`)
+        }
+        return join(this.root, id.slice(0, 2), id.slice(2))
+    }
+}
+
+/**
+ * A repository in a directory: `objects/`, `work_in_progress/` and `refs.json`
+ */
+export class FileSystemRepository implements RepositoryStorage {
+    readonly objects: FileSystemStore
+    readonly workInProgress: FileSystemStore
+
+    constructor(private root: string) {
+        this.objects = new FileSystemStore(join(root, "objects"))
+        this.workInProgress = new FileSystemStore(join(root, "work_in_progress"))
+    }
+
+    async loadRefs(): Promise<RepositoryRefs | undefined> {
+        const file = join(this.root, "refs.json")
+        if (!existsSync(file)) return undefined
+        return JSON.parse(readFileSync(file, "utf8")) as RepositoryRefs
+    }
+
+    saveRefs(refs: RepositoryRefs): void {
+        writeFileSync(join(this.root, "refs.json"), JSON.stringify(refs, null, 2))
+    }
+
+    async flush(): Promise<void> {}
+}
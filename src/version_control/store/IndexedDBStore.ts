@@ -0,0 +1,234 @@
+import { cid, CID, CIDable } from "../cid"
+import { RepositoryRefs } from "../mutable/refs"
+import { ContentStore, RepositoryStorage } from "./ContentStore"
+
+const OBJECTS = "objects"
+const WORK_IN_PROGRESS = "work_in_progress"
+const REFS = "refs"
+const REFS_KEY = "refs"
+
+/**
+ * Content-addressed store backed by an IndexedDB object store.
+ *
+ * Reads are served from an in-memory cache that is filled once by `load()`:
+ * ContentStore reads are synchronous, so the whole store, history included,
+ * is held in memory for as long as the repository is open. That bounds a
+ * repository by the tab's memory, not by the IndexedDB quota; `gc()` is the
+ * way to shrink it.
+ * Writes land in the cache immediately and are flushed to IndexedDB in batches.
+ * Flushes run one after another, and a write only leaves `pending` once the
+ * transaction carrying it has completed, so a failed flush is retried by the next.
+ */
+export class IndexedDBStore implements ContentStore {
+    private cache: Map<string, CIDable> = new Map()
+    // null marks a pending delete
+    private pending: Map<string, CIDable | null> = new Map()
+    // clear() calls requested vs. written; they differ while a clear is pending
+    private clears = 0
+    private flushedClears = 0
+    private scheduled = false
+    private inFlight: Promise<void> = Promise.resolve()
+
+    constructor(private db: IDBDatabase, private storeName: string) {}
+
+    /**
+     * Fill the cache with everything already persisted. Walks a cursor rather
+     * than getAll(), so the store is never held in memory twice while loading.
+     */
+    load(): Promise<void> {
+        const tx = this.db.transaction(this.storeName, "readonly")
+        const cursorRequest = tx.objectStore(this.storeName).openCursor()
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result
+            if (!cursor) return
+            this.cache.set(cursor.key as string, cursor.value as CIDable)
+            cursor.continue()
+        }
+        return transactionDone(tx)
+    }
+
+    put<T extends CIDable>(node: T): CID<T> {
+        const id = cid(node)
+        if (!this.cache.has(id)) {
+            this.cache.set(id, node)
+            this.pending.set(id, node)
+            this.scheduleFlush()
+        }
+        return id
+    }
+
+    get<T extends CIDable>(id: CID<T>): T | undefined {
+        return this.cache.get(id) as T | undefined
+    }
+
+    has(id: CID<any>): boolean {
+        return this.cache.has(id)
+    }
+
+    delete(id: CID<any>): void {
+        if (this.cache.delete(id)) {
+            this.pending.set(id, null)
+            this.scheduleFlush()
+        }
+    }
+
+    clear(): void {
+        this.cache.clear()
+        this.pending.clear()
+        this.clears++
+        this.scheduleFlush()
+    }
+
+    entries(): IterableIterator<[string, CIDable]> {
+        return this.cache.entries()
+    }
+
+    /**
+     * Write all pending changes to IndexedDB, after any flush already in flight
+     */
+    flush(): Promise<void> {
+        this.scheduled = false
+        // A failed flush leaves its changes pending, so this one retries them
+        this.inFlight = this.inFlight.catch(() => {}).then(() => this.write())
+        return this.inFlight
+    }
+
+    private async write(): Promise<void> {
+        const clears = this.clears
+        const clearing = clears !== this.flushedClears
+        if (!clearing && this.pending.size === 0) return
+
+        const batch = new Map(this.pending)
+        const tx = this.db.transaction(this.storeName, "readwrite")
+        const objectStore = tx.objectStore(this.storeName)
+        if (clearing) {
+            objectStore.clear()
+        }
+        for (const [id, node] of batch) {
+            if (node === null) {
+                objectStore.delete(id)
+            } else {
+                objectStore.put(node, id)
+            }
+        }
+        await transactionDone(tx)
+
+        this.flushedClears = clears
+        // A clear() while the transaction was running has emptied `pending`,
+        // and whatever was put since goes to the next flush, which clears the
+        // store first; so nothing in it counts as written yet
+        if (this.clears !== clears) return
+        // Keep anything changed again while the transaction was running
+        for (const [id, node] of batch) {
+            if (this.pending.get(id) === node) {
+                this.pending.delete(id)
+            }
+        }
+    }
+
+    private scheduleFlush(): void {
+        if (this.scheduled) return
+        this.scheduled = true
+        setTimeout(() => { this.flush().catch(reportFlushError) }, 0)
+    }
+}
+
+/**
+ * A repository persisted in a single IndexedDB database: committed objects,
+ * work-in-progress objects and the refs (branches and working root).
+ */
+export class IndexedDBRepository implements RepositoryStorage {
+    readonly objects: IndexedDBStore
+    readonly workInProgress: IndexedDBStore
+    private pendingRefs: RepositoryRefs | null = null
+    private refsScheduled = false
+    private inFlight: Promise<void> = Promise.resolve()
+
+    private constructor(private db: IDBDatabase) {
+        this.objects = new IndexedDBStore(db, OBJECTS)
+        this.workInProgress = new IndexedDBStore(db, WORK_IN_PROGRESS)
+    }
+
+    /**
+     * Open (or create) the named database and load its contents
+     */
+    static async open(name: string = "merkurial"): Promise<IndexedDBRepository> {
+        const openRequest = indexedDB.open(name, 1)
+        openRequest.onupgradeneeded = () => {
+            const db = openRequest.result
+            for (const storeName of [OBJECTS, WORK_IN_PROGRESS, REFS]) {
+                if (!db.objectStoreNames.contains(storeName)) {
+                    db.createObjectStore(storeName)
+                }
+            }
+        }
+        const repository = new IndexedDBRepository(await request(openRequest))
+        await Promise.all([repository.objects.load(), repository.workInProgress.load()])
+        return repository
+    }
+
+    /**
+     * Read the persisted refs, if the repository has been saved before
+     */
+    async loadRefs(): Promise<RepositoryRefs | undefined> {
+        const tx = this.db.transaction(REFS, "readonly")
+        return await request(tx.objectStore(REFS).get(REFS_KEY)) as RepositoryRefs | undefined
+    }
+
+    /**
+     * Persist the refs. The write is deferred until the objects they point at
+     * have been flushed, so a reload never sees a branch without its commit.
+     */
+    saveRefs(refs: RepositoryRefs): void {
+        this.pendingRefs = refs
+        if (!this.refsScheduled) {
+            this.refsScheduled = true
+            setTimeout(() => { this.flush().catch(reportFlushError) }, 0)
+        }
+    }
+
+    /**
+     * Write all pending objects, then the latest refs, after any flush
+     * already in flight
+     */
+    flush(): Promise<void> {
+        this.refsScheduled = false
+        this.inFlight = this.inFlight.catch(() => {}).then(() => this.write())
+        return this.inFlight
+    }
+
+    private async write(): Promise<void> {
+        // Refs are only written once the objects they point at are durable
+        await Promise.all([this.objects.flush(), this.workInProgress.flush()])
+
+        const refs = this.pendingRefs
+        if (!refs) return
+
+        const tx = this.db.transaction(REFS, "readwrite")
+        tx.objectStore(REFS).put(refs, REFS_KEY)
+        await transactionDone(tx)
+        if (this.pendingRefs === refs) {
+            this.pendingRefs = null
+        }
+    }
+}
+
+// Background flushes have no caller to reject to
+function reportFlushError(error: unknown): void {
+    console.error("Could not save to IndexedDB", error)
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => reject(req.error)
+    })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve()
+        tx.onerror = () => reject(tx.error)
+        tx.onabort = () => reject(tx.error)
+    })
+}
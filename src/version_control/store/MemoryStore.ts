@@ -0,0 +1,37 @@
+import { cid, CID, CIDable } from "../cid"
+import { ContentStore } from "./ContentStore"
+
+/**
+ * Simple content-addressed key-value store held entirely in memory
+ */
+export class MemoryStore implements ContentStore {
+    private store: Map<string, CIDable> = new Map()
+
+    put<T extends CIDable>(node: T): CID<T> {
+        const id = cid(node)
+        this.store.set(id, node)
+        return id
+    }
+
+    get<T extends CIDable>(id: CID<T>): T | undefined {
+        return this.store.get(id) as T | undefined
+    }
+
+    has(id: CID<any>): boolean {
+        return this.store.has(id)
+    }
+
+    delete(id: CID<any>): void {
+        this.store.delete(id)
+    }
+
+    clear(): void {
+        this.store.clear()
+    }
+
+    entries(): IterableIterator<[string, CIDable]> {
+        return this.store.entries()
+    }
+
+    async flush(): Promise<void> {}
+}